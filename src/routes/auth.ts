@@ -0,0 +1,125 @@
+/**
+ * API-key middleware and GET /usage. Keys and limits live in utils/apikeys; with no keys
+ * configured every request passes.
+ */
+
+import type { NextFunction, Request, Response } from 'express';
+import {
+  acquireConversion,
+  type ApiKey,
+  apiKeysEnabled,
+  findApiKey,
+  releaseConversion,
+  takeRequest,
+  usageView,
+} from '../utils/apikeys';
+
+type AuthedRequest = Request & {
+  apiKey?: ApiKey;
+  /** Set by conversionSlot; null once a job took over the slot. */
+  conversionRelease?: (() => void) | null;
+};
+
+/** Key from X-API-Key or Authorization: Bearer. */
+function presentedKey(req: Request): string | undefined {
+  const header = req.get('X-API-Key');
+  if (header) return header.trim();
+  const match = /^Bearer\s+(\S+)$/i.exec(req.get('Authorization') ?? '');
+  return match?.[1];
+}
+
+/** Webhook download links (GET /jobs/:id/result?signature=…) carry their own credential. */
+function isSignedResultLink(req: Request): boolean {
+  return req.method === 'GET' && /^\/jobs\/[^/]+\/result$/.test(req.path) && req.query.signature !== undefined;
+}
+
+/** The authenticated key of this request (undefined when auth is off). */
+export function requestApiKey(req: Request): ApiKey | undefined {
+  return (req as AuthedRequest).apiKey;
+}
+
+/**
+ * 401 without a valid key, 429 RATE_LIMITED (with Retry-After) beyond the key's requests per
+ * minute. Mounted after /health, which stays open.
+ */
+export function requireApiKey(req: Request, res: Response, next: NextFunction): void {
+  if (!apiKeysEnabled() || isSignedResultLink(req)) {
+    next();
+    return;
+  }
+  const secret = presentedKey(req);
+  const key = secret ? findApiKey(secret) : undefined;
+  if (!key) {
+    res.set('WWW-Authenticate', 'Bearer').status(401).json({
+      error: 'UNAUTHORIZED',
+      message: secret ? 'Invalid API key.' : 'Missing API key. Send it in X-API-Key or Authorization: Bearer.',
+    });
+    return;
+  }
+  const retryAfterSec = takeRequest(key);
+  res.set('X-RateLimit-Limit', String(key.rateLimitPerMin));
+  if (retryAfterSec > 0) {
+    res.set('Retry-After', String(retryAfterSec)).status(429).json({
+      error: 'RATE_LIMITED',
+      message: `Rate limit of ${key.rateLimitPerMin} requests per minute exceeded; retry in ${retryAfterSec}s.`,
+    });
+    return;
+  }
+  (req as AuthedRequest).apiKey = key;
+  next();
+}
+
+/**
+ * Conversion routes: take one of the key's concurrent-conversion slots (released when the
+ * response closes, or by the job that took it over) and refuse once the daily minutes are
+ * used up. 429 TOO_MANY_CONCURRENT / QUOTA_EXCEEDED with Retry-After. Runs before the upload.
+ */
+export function conversionSlot(req: Request, res: Response, next: NextFunction): void {
+  const key = requestApiKey(req);
+  if (!key) {
+    next();
+    return;
+  }
+  const refused = acquireConversion(key);
+  if (refused) {
+    res.set('Retry-After', String(refused.retryAfterSec)).status(429).json(
+      refused.limit === 'quota'
+        ? { error: 'QUOTA_EXCEEDED', message: `Daily quota of ${key.dailyMinutes} video minutes used up; resets at 00:00 UTC.` }
+        : { error: 'TOO_MANY_CONCURRENT', message: `At most ${key.maxConcurrent} conversions may run at once for this API key.` },
+    );
+    return;
+  }
+  let released = false;
+  const release = (): void => {
+    if (released) return;
+    released = true;
+    releaseConversion(key);
+  };
+  (req as AuthedRequest).conversionRelease = release;
+  res.on('close', () => {
+    if ((req as AuthedRequest).conversionRelease) release();
+  });
+  next();
+}
+
+/**
+ * Move the request's conversion slot to a queued job: the response closing no longer frees it;
+ * the returned function (call when the job finishes) does. Undefined without a slot.
+ */
+export function handOffConversionSlot(req: Request): (() => void) | undefined {
+  const release = (req as AuthedRequest).conversionRelease ?? undefined;
+  (req as AuthedRequest).conversionRelease = null;
+  return release;
+}
+
+/**
+ * GET /usage — the calling key's limits and today's usage.
+ */
+export function getUsage(req: Request, res: Response): void {
+  const key = requestApiKey(req);
+  if (!key) {
+    res.json({ authEnabled: false });
+    return;
+  }
+  res.json({ authEnabled: true, ...usageView(key) });
+}
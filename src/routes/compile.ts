@@ -0,0 +1,93 @@
+/**
+ * POST /compile — several uploaded clips, each cut to its in / out points, framed alike and joined
+ * into one Short (utils/compile).
+ */
+
+import type { Request, Response } from 'express';
+import type multer from 'multer';
+import { assertOptionsAllowed, chargeSeconds } from '../utils/apikeys';
+import { type ClipSource, planCompilation, renderCompilation } from '../utils/compile';
+import { toErrorResponse } from '../utils/errors';
+import { fileSha256 } from '../utils/hashstorage';
+import { acquireConversionSlot } from '../utils/jobs';
+import { log } from '../utils/logger';
+import { parseCompileOptions, parseProcessOptions } from '../utils/options';
+import { publishProgress } from '../utils/progress';
+import { assertFileSize, rmDirRecursive } from '../utils/tmp';
+import { MAX_COMPILE_CLIPS } from '../types';
+import { requestApiKey } from './auth';
+import { disconnectSignal, sendConversionResult } from './process';
+
+/** Multipart fields of /compile: up to MAX_COMPILE_CLIPS videos under "files". */
+export const COMPILE_FIELDS: multer.Field[] = [{ name: 'files', maxCount: MAX_COMPILE_CLIPS }];
+
+export async function compile(req: Request, res: Response): Promise<void> {
+  const reqId = (req as Request & { requestId: string }).requestId;
+  const tmpDir = (req as Request & { uniqueTmpDir: string }).uniqueTmpDir;
+  const start = Date.now();
+  const signal = disconnectSignal(req, res);
+
+  try {
+    const files = (req.files as Record<string, Express.Multer.File[]> | undefined)?.files ?? [];
+    if (files.length === 0) {
+      rmDirRecursive(tmpDir);
+      res.status(400).json({ error: 'NO_FILE', message: 'No clips uploaded. Use the multipart field "files" once per clip.' });
+      return;
+    }
+    for (const file of files) assertFileSize(file.size);
+
+    const body = (req.body as Record<string, unknown>) || {};
+    const options = parseProcessOptions(body);
+    const compileOptions = parseCompileOptions(body);
+    assertOptionsAllowed(requestApiKey(req), options);
+    const sources: ClipSource[] = files.map((file) => ({
+      path: file.path,
+      originalName: file.originalname,
+      sha256: fileSha256(file),
+    }));
+
+    const plan = await planCompilation(sources, options, compileOptions, signal);
+    if (plan.rejected.length > 0) {
+      rmDirRecursive(tmpDir);
+      log.info('compile rejected', {
+        requestId: reqId,
+        clips: plan.clips.length,
+        rejected: plan.rejected.map((c) => `${c.index}:${c.reasons.join('+')}`).join(','),
+      });
+      res.status(422).json({
+        error: 'CLIPS_REJECTED',
+        message: `${plan.rejected.length} of ${plan.clips.length} clips cannot be compiled; see clips[].reasons.`,
+        clips: plan.clips,
+      });
+      return;
+    }
+
+    const releaseSlot = await acquireConversionSlot(signal);
+    publishProgress({ requestId: reqId, status: 'running' });
+    const result = await renderCompilation(plan, tmpDir, options, compileOptions, {
+      signal,
+      onProgress: (p) => publishProgress({ requestId: reqId, status: 'running', ...p }),
+    }).finally(releaseSlot);
+    publishProgress({ requestId: reqId, status: 'done', percent: 100 });
+    chargeSeconds(requestApiKey(req), result.durationSec);
+
+    log.info('compile', {
+      requestId: reqId,
+      clips: result.clips.length,
+      durationSec: result.durationSec,
+      mode: options.mode,
+      crossfadeSec: compileOptions.crossfadeSec,
+      elapsedMs: Date.now() - start,
+    });
+    sendConversionResult(req, res, tmpDir, result);
+  } catch (e) {
+    try {
+      rmDirRecursive(tmpDir);
+    } catch {
+      /* ignore */
+    }
+    const { status, error, message } = toErrorResponse(e);
+    publishProgress({ requestId: reqId, status: 'failed', error });
+    res.status(status).json({ error, message });
+  }
+}
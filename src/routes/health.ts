@@ -0,0 +1,39 @@
+/**
+ * GET /health and the drain guard used during graceful shutdown (utils/shutdown).
+ */
+
+import type { NextFunction, Request, Response } from 'express';
+import { drainState, isDraining, trackRequest } from '../utils/shutdown';
+
+/**
+ * GET /health — 200 `{status: 'ok'}`; 503 `{status: 'draining', ...}` once shutdown started, so
+ * the load balancer stops routing new traffic here.
+ */
+export function getHealth(_req: Request, res: Response): void {
+  if (isDraining()) {
+    res.status(503).json({ status: 'draining', ...drainState() });
+    return;
+  }
+  res.json({ status: 'ok' });
+}
+
+/**
+ * POST routes (new work) and PATCH upload chunks: 503 SHUTTING_DOWN while draining; otherwise
+ * counted as in progress until the response closes, so shutdown waits for them. Reads (job status,
+ * results, progress) keep working while draining.
+ */
+export function drainGuard(req: Request, res: Response, next: NextFunction): void {
+  if (req.method !== 'POST' && req.method !== 'PATCH') {
+    next();
+    return;
+  }
+  if (isDraining()) {
+    res.set({ Connection: 'close', 'Retry-After': '5' }).status(503).json({
+      error: 'SHUTTING_DOWN',
+      message: 'Server is shutting down; retry shortly.',
+    });
+    return;
+  }
+  res.on('close', trackRequest());
+  next();
+}
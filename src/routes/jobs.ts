@@ -0,0 +1,271 @@
+/**
+ * Async job API: POST /jobs, GET /jobs/:id, GET /jobs/:id/result, DELETE /jobs/:id.
+ * Same multipart fields and error codes as POST /process/shorts; conversion runs in the job pool.
+ * With callbackUrl, the finished job is also POSTed to that URL (see utils/webhook).
+ */
+
+import type { Request, Response } from 'express';
+import type { VideoMetadata } from '../types';
+import { assertOptionsAllowed, chargeResult } from '../utils/apikeys';
+import { toErrorResponse } from '../utils/errors';
+import { fileSha256 } from '../utils/hashstorage';
+import {
+  cancelJob,
+  enqueueJob,
+  expiresAt,
+  getJob,
+  type Job,
+  queuePosition,
+  removeJob,
+} from '../utils/jobs';
+import { checkSignedUrl, publicBaseUrl, signedUrl } from '../utils/links';
+import { log } from '../utils/logger';
+import { parseProcessOptions } from '../utils/options';
+import { getProgress } from '../utils/progress';
+import { assertFileSize, rmDirRecursive } from '../utils/tmp';
+import { type CallbackTarget, deliverCallback, parseCallback } from '../utils/webhook';
+import { handOffConversionSlot, requestApiKey } from './auth';
+import { sendOutputFile, uploadedFile } from './process';
+
+function iso(ms: number | undefined): string | undefined {
+  return ms !== undefined ? new Date(ms).toISOString() : undefined;
+}
+
+/**
+ * Public JSON view of a job (no paths).
+ */
+function jobView(job: Job): Record<string, unknown> {
+  const view: Record<string, unknown> = {
+    id: job.id,
+    status: job.status,
+    createdAt: iso(job.createdAt),
+    startedAt: iso(job.startedAt),
+    finishedAt: iso(job.finishedAt),
+    expiresAt: iso(expiresAt(job)),
+    statusUrl: `/jobs/${job.id}`,
+  };
+  const position = queuePosition(job);
+  if (position !== undefined) view.queuePosition = position;
+  const progress = getProgress(job.id);
+  if (job.status === 'running' && progress?.percent !== undefined) {
+    const { percent, outTimeSec, durationSec, elapsedSec, speed, etaSec, segment, segmentCount } = progress;
+    view.progress = { percent, outTimeSec, durationSec, elapsedSec, speed, etaSec, segment, segmentCount };
+  }
+  view.progressUrl = `/process/progress/${job.id}`;
+  if (job.error) {
+    view.error = { error: job.error.error, message: job.error.message };
+  }
+  if (job.callback) {
+    const { url, status, attempts, lastStatusCode, lastError, deliveredAt } = job.callback;
+    view.callback = { url, status, attempts, lastStatusCode, lastError, deliveredAt: iso(deliveredAt) };
+  }
+  if (job.result) {
+    const { finalMeta, validation, converted, conversionMode, contentType, filename, segments, silence } = job.result;
+    view.resultUrl = `/jobs/${job.id}/result`;
+    view.result = {
+      contentType,
+      filename,
+      width: finalMeta.width,
+      height: finalMeta.height,
+      durationSec: finalMeta.durationSec,
+      aspectRatio: finalMeta.aspectRatio,
+      shortsEligible: validation.shortsEligible,
+      reason: validation.reasons,
+      converted,
+      conversionMode,
+      segmentCount: segments.length,
+      silence,
+    };
+  }
+  return view;
+}
+
+/** Metadata subset sent in webhooks, for the source and for the output. */
+function metaView(meta: VideoMetadata): Record<string, unknown> {
+  const { width, height, durationSec, aspectRatio, container, videoCodec, audioCodec, fps, bitrate, sizeBytes, hasAudio } = meta;
+  return { width, height, durationSec, aspectRatio, container, videoCodec, audioCodec, fps, bitrate, sizeBytes, hasAudio };
+}
+
+/**
+ * Webhook body for a finished job: status, timings, metadata before / after, validation and a
+ * signed download URL valid until the result expires; error code and message on failure.
+ */
+function callbackPayload(job: Job, baseUrl: string): Record<string, unknown> {
+  const finishedAt = job.finishedAt ?? Date.now();
+  const startedAt = job.startedAt ?? finishedAt;
+  const payload: Record<string, unknown> = {
+    jobId: job.id,
+    status: job.status,
+    createdAt: iso(job.createdAt),
+    startedAt: iso(job.startedAt),
+    finishedAt: iso(job.finishedAt),
+    timings: {
+      queuedMs: startedAt - job.createdAt,
+      processingMs: finishedAt - startedAt,
+      totalMs: finishedAt - job.createdAt,
+    },
+    statusUrl: `${baseUrl}/jobs/${job.id}`,
+  };
+  if (job.error) {
+    payload.error = { error: job.error.error, message: job.error.message };
+  }
+  const expires = expiresAt(job);
+  if (job.result && expires !== undefined) {
+    const { meta, finalMeta, validation, converted, conversionMode, contentType, filename, segments, silence } = job.result;
+    payload.result = {
+      contentType,
+      filename,
+      converted,
+      conversionMode,
+      profile: validation.profile,
+      shortsEligible: validation.shortsEligible,
+      reason: validation.reasons,
+      segmentCount: segments.length,
+      silence,
+      original: metaView(meta),
+      final: metaView(finalMeta),
+    };
+    payload.download = {
+      url: signedUrl(baseUrl, `/jobs/${job.id}/result`, expires),
+      expiresAt: iso(expires),
+    };
+  }
+  return payload;
+}
+
+/** onFinish hook for jobs with a callbackUrl. */
+function notifyOnFinish(target: CallbackTarget, baseUrl: string): (job: Job) => void {
+  return (job) => {
+    if (!job.callback) job.callback = { url: target.url, status: 'pending', attempts: 0 };
+    void deliverCallback(job.id, target, `job.${job.status}`, callbackPayload(job, baseUrl), job.callback);
+  };
+}
+
+/**
+ * Job by id; another API key's job is reported as not found. anyOwner: skip that check (a valid
+ * signed link is its own credential and comes without an API key).
+ */
+function findJob(req: Request, res: Response, anyOwner = false): Job | undefined {
+  const found = getJob(req.params.id);
+  const job = found && (anyOwner || found.owner === requestApiKey(req)?.name) ? found : undefined;
+  if (!job) {
+    res.status(404).json({ error: 'JOB_NOT_FOUND', message: 'No such job (unknown id or expired).' });
+  }
+  return job;
+}
+
+/**
+ * POST /jobs — accept upload + options, queue conversion, return 202 with the job id.
+ */
+export function createJob(req: Request, res: Response): void {
+  const reqId = (req as Request & { requestId: string }).requestId;
+  const tmpDir = (req as Request & { uniqueTmpDir: string }).uniqueTmpDir;
+
+  try {
+    if (!req.file) {
+      rmDirRecursive(tmpDir);
+      res.status(400).json({ error: 'NO_FILE', message: 'No file uploaded. Use multipart field "file", "uploadId" of a completed upload or a JSON body with "sourceUrl".' });
+      return;
+    }
+
+    assertFileSize(req.file.size);
+
+    const body = (req.body as Record<string, unknown>) || {};
+    const options = parseProcessOptions(body);
+    const apiKey = requestApiKey(req);
+    assertOptionsAllowed(apiKey, options);
+    const callback = parseCallback(body);
+    const notify = callback ? notifyOnFinish(callback, publicBaseUrl(req)) : undefined;
+    let releaseSlot: (() => void) | undefined;
+    const job = enqueueJob(
+      reqId,
+      {
+        inputPath: req.file.path,
+        originalName: req.file.originalname,
+        tmpDir,
+        captionsPath: uploadedFile(req, 'captions')?.path,
+        watermarkPath: uploadedFile(req, 'watermark')?.path,
+        musicPath: uploadedFile(req, 'music')?.path,
+        sourceSha256: fileSha256(req.file),
+        captionsSha256: fileSha256(uploadedFile(req, 'captions')),
+        watermarkSha256: fileSha256(uploadedFile(req, 'watermark')),
+        musicSha256: fileSha256(uploadedFile(req, 'music')),
+      },
+      options,
+      (finished) => {
+        releaseSlot?.();
+        if (finished.result) chargeResult(apiKey, finished.result);
+        notify?.(finished);
+      },
+    );
+    // the conversion slot now belongs to the job, not to this response
+    releaseSlot = handOffConversionSlot(req);
+    job.owner = apiKey?.name;
+    if (callback) job.callback = { url: callback.url, status: 'pending', attempts: 0 };
+    log.info('job queued', { requestId: reqId, bytes: req.file.size, mode: options.mode, callback: callback !== null });
+    res.status(202).location(`/jobs/${job.id}`).json(jobView(job));
+  } catch (e) {
+    try {
+      rmDirRecursive(tmpDir);
+    } catch {
+      /* ignore */
+    }
+    const { status, error, message } = toErrorResponse(e);
+    res.status(status).json({ error, message });
+  }
+}
+
+/**
+ * GET /jobs/:id — status, error code on failure, result metadata when done.
+ */
+export function getJobStatus(req: Request, res: Response): void {
+  const job = findJob(req, res);
+  if (!job) return;
+  res.json(jobView(job));
+}
+
+/**
+ * GET /jobs/:id/result — the output file, with the same headers as /process/shorts.
+ * The result stays available until the job expires; it may be downloaded more than once.
+ * Links from webhooks carry expires / signature, which are checked when present.
+ */
+export function getJobResult(req: Request, res: Response): void {
+  let signed = false;
+  if (req.query.signature !== undefined || req.query.expires !== undefined) {
+    const check = checkSignedUrl(`/jobs/${req.params.id}/result`, req.query);
+    if (check === 'invalid') {
+      res.status(403).json({ error: 'INVALID_SIGNATURE', message: 'Download link signature is invalid.' });
+      return;
+    }
+    if (check === 'expired') {
+      res.status(410).json({ error: 'LINK_EXPIRED', message: 'Download link has expired.' });
+      return;
+    }
+    signed = true;
+  }
+  const job = findJob(req, res, signed);
+  if (!job) return;
+  if (job.status !== 'done' || !job.result) {
+    res.status(409).json({
+      error: 'JOB_NOT_READY',
+      message: `Job is ${job.status}; result is only available when status is "done".`,
+    });
+    return;
+  }
+  sendOutputFile(res, job.id, job.result);
+}
+
+/**
+ * DELETE /jobs/:id — cancel a queued / running job; delete a finished job and its result.
+ */
+export function deleteJob(req: Request, res: Response): void {
+  const job = findJob(req, res);
+  if (!job) return;
+  if (cancelJob(job)) {
+    log.info('job cancel requested', { requestId: job.id });
+    res.status(202).json(jobView(job));
+    return;
+  }
+  removeJob(job);
+  res.status(204).end();
+}
@@ -0,0 +1,85 @@
+/**
+ * Request context (request id, metrics, access log) and GET /metrics.
+ */
+
+import type { NextFunction, Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { getJob } from '../utils/jobs';
+import { log } from '../utils/logger';
+import { recordBytesIn, recordBytesOut, recordHttpRequest, renderMetrics } from '../utils/metrics';
+import { getProgress } from '../utils/progress';
+import { getRetainedResult } from '../utils/results';
+
+/** Ids become job ids and URL path segments (/jobs/:id, /process/progress/:id): keep them plain. */
+const REQUEST_ID_RE = /^[A-Za-z0-9][A-Za-z0-9._:-]{0,127}$/;
+
+/**
+ * Client id from X-Request-Id when it is safe and not already a live progress stream, job or
+ * retained result (so a caller can open GET /process/progress/:requestId before the response
+ * arrives), else a new UUID.
+ */
+function requestIdFor(req: Request): string {
+  const incoming = req.get('X-Request-Id');
+  if (incoming && REQUEST_ID_RE.test(incoming) && !getProgress(incoming) && !getJob(incoming)
+    && !getRetainedResult(incoming)) {
+    return incoming;
+  }
+  return uuidv4();
+}
+
+/** Size of the multipart uploads multer stored for this request. */
+function uploadedBytes(req: Request): number {
+  const files = req.files;
+  if (!files) return 0;
+  const list = Array.isArray(files) ? files : Object.values(files).flat();
+  return list.reduce((sum, file) => sum + file.size, 0);
+}
+
+/**
+ * First middleware: assign req.requestId (echoed in X-Request-Id on every response); once the
+ * response is closed, count it in /metrics and write one access log line. The error code is
+ * taken from the `error` field of JSON error bodies.
+ */
+export function requestContext(req: Request, res: Response, next: NextFunction): void {
+  const requestId = requestIdFor(req);
+  (req as Request & { requestId: string }).requestId = requestId;
+  res.set('X-Request-Id', requestId);
+  const start = Date.now();
+
+  let code = '';
+  const json = res.json.bind(res);
+  res.json = (body?: unknown): Response => {
+    const error = (body as { error?: unknown } | undefined)?.error;
+    if (typeof error === 'string') code = error;
+    return json(body);
+  };
+
+  res.on('close', () => {
+    // route pattern, not the path, to keep label cardinality bounded
+    const route = (req.route as { path?: string } | undefined)?.path ?? 'unmatched';
+    // client went away before any response was sent
+    const status = res.headersSent ? res.statusCode : 499;
+    recordHttpRequest(route, req.method, status, code);
+    recordBytesIn('upload', uploadedBytes(req));
+    if (res.writableEnded && req.method !== 'HEAD') {
+      recordBytesOut(Number(res.getHeader('Content-Length')) || 0);
+    }
+    log[status >= 500 ? 'warn' : 'info']('request', {
+      requestId,
+      method: req.method,
+      route,
+      path: req.path,
+      status,
+      code: code || undefined,
+      durationMs: Date.now() - start,
+    });
+  });
+  next();
+}
+
+/**
+ * GET /metrics — Prometheus text format.
+ */
+export async function getMetrics(_req: Request, res: Response): Promise<void> {
+  res.type('text/plain; version=0.0.4').send(await renderMetrics());
+}
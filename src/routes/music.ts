@@ -0,0 +1,10 @@
+/**
+ * GET /music — tracks of the server music library (MUSIC_DIR), usable as the musicTrack field.
+ */
+
+import type { Request, Response } from 'express';
+import { listMusicTracks, musicLibraryEnabled } from '../utils/music';
+
+export function getMusic(_req: Request, res: Response): void {
+  res.json({ enabled: musicLibraryEnabled(), tracks: listMusicTracks() });
+}
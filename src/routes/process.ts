@@ -3,67 +3,84 @@
  */
 
 import type { Request, Response } from 'express';
-import * as fs from 'fs';
 import * as path from 'path';
 import multer from 'multer';
-import { v4 as uuidv4 } from 'uuid';
-import { convertToShorts } from '../utils/ffmpeg';
+import { assertOptionsAllowed, chargeResult } from '../utils/apikeys';
+import { measureLoudness } from '../utils/audio';
+import { analyzeAutoFrame } from '../utils/autoframe';
+import { getCachedProbe, putCachedProbe } from '../utils/cache';
+import { downloadSource } from '../utils/download';
+import { toErrorResponse } from '../utils/errors';
 import { getVideoMetadata } from '../utils/ffprobe';
+import { acquireConversionSlot } from '../utils/jobs';
+import { log } from '../utils/logger';
+import { recordBytesIn } from '../utils/metrics';
+import { MUSIC_EXTS } from '../utils/music';
+import { fileSha256, type HashedFile, hashingDiskStorage } from '../utils/hashstorage';
+import { parseProcessOptions } from '../utils/options';
+import { runShortsPipeline } from '../utils/pipeline';
+import { resolveProfileList } from '../utils/profiles';
+import { resultRetentionEnabled, retainResult } from '../utils/results';
+import { assertDiskSpace } from '../utils/storage';
+import { publishProgress } from '../utils/progress';
 import {
   createUniqueTmpDir,
-  outputPath,
+  holdTmpDir,
   rmDirRecursive,
   sanitizeFilename,
 } from '../utils/tmp';
 import { assertFileSize } from '../utils/tmp';
 import { validateShorts } from '../utils/validate';
-import {
-  type ConversionMode,
-  DEFAULT_PROCESS_OPTIONS,
-  MAX_FILE_SIZE_BYTES,
-  type ProcessOptions,
-} from '../types';
+import { type AutoFramePath, MAX_FILE_SIZE_BYTES, type OutputFile } from '../types';
+import { requestApiKey } from './auth';
 
 const VIDEO_MIMES = ['video/mp4', 'video/quicktime', 'video/x-msvideo', 'video/webm', 'video/x-matroska'];
 const ALLOWED_MIMES = new Set(VIDEO_MIMES);
 
-function isVideoMime(mime: string): boolean {
+export function isVideoMime(mime: string): boolean {
   if (!mime) return false;
   if (ALLOWED_MIMES.has(mime)) return true;
   return mime.startsWith('video/');
 }
 
-function parseProcessOptions(body: Record<string, unknown>): ProcessOptions {
-  const modeRaw = body.mode as string | undefined;
-  const mode: ConversionMode =
-    modeRaw === 'pad' || modeRaw === 'blur' ? modeRaw : DEFAULT_PROCESS_OPTIONS.mode;
+const CAPTION_MIMES = new Set(['application/x-subrip', 'text/vtt', 'text/plain', 'text/srt', 'application/octet-stream']);
+const CAPTION_EXTS = new Set(['.srt', '.vtt']);
 
-  const targetWidth = Math.max(1, Math.min(4096, Number(body.targetWidth) || DEFAULT_PROCESS_OPTIONS.targetWidth));
-  const targetHeight = Math.max(1, Math.min(4096, Number(body.targetHeight) || DEFAULT_PROCESS_OPTIONS.targetHeight));
-  const maxDurationSec = Math.max(1, Math.min(300, Number(body.maxDurationSec) || DEFAULT_PROCESS_OPTIONS.maxDurationSec));
-  const tolerance = Math.max(0.001, Math.min(0.5, Number(body.tolerance) ?? DEFAULT_PROCESS_OPTIONS.tolerance));
-  const forceConvert = body.forceConvert === 'true' || body.forceConvert === true;
+const IMAGE_MIMES = new Set(['image/png', 'image/jpeg', 'image/webp']);
 
-  return {
-    mode,
-    targetWidth,
-    targetHeight,
-    maxDurationSec,
-    tolerance,
-    forceConvert,
-  };
+function isCaptionsUpload(mime: string, originalName: string): boolean {
+  if (CAPTION_EXTS.has(path.extname(originalName || '').toLowerCase())) return true;
+  return CAPTION_MIMES.has(mime);
+}
+
+function isMusicUpload(mime: string, originalName: string): boolean {
+  if (MUSIC_EXTS.has(path.extname(originalName || '').toLowerCase())) return true;
+  return mime.startsWith('audio/');
+}
+
+/**
+ * Middleware (before the upload): 507 INSUFFICIENT_STORAGE when the tmp filesystem is too full
+ * to take another upload and its outputs.
+ */
+export function requireDiskSpace(_req: Request, res: Response, next: () => void): void {
+  assertDiskSpace().then(next, (e: unknown) => {
+    const { status, error, message } = toErrorResponse(e);
+    res.set('Retry-After', '60').status(status).json({ error, message });
+  });
 }
 
 /**
- * Middleware: create requestId and unique tmp dir, attach to req.
+ * Middleware: create the unique tmp dir for this request (req.requestId comes from requestContext),
+ * held until the response closes.
  */
-export function processTmpMiddleware(req: Request, _res: Response, next: () => void): void {
-  (req as Request & { requestId: string; uniqueTmpDir: string }).requestId = uuidv4();
-  (req as Request & { uniqueTmpDir: string }).uniqueTmpDir = createUniqueTmpDir();
+export function processTmpMiddleware(req: Request, res: Response, next: () => void): void {
+  const dir = createUniqueTmpDir();
+  (req as Request & { uniqueTmpDir: string }).uniqueTmpDir = dir;
+  res.on('close', holdTmpDir(dir));
   next();
 }
 
-const storage = multer.diskStorage({
+const storage = hashingDiskStorage({
   destination(_req, _file, cb) {
     const dir = (_req as Request & { uniqueTmpDir: string }).uniqueTmpDir;
     if (!dir) return cb(new Error('missing uniqueTmpDir'), '');
@@ -71,6 +88,18 @@ const storage = multer.diskStorage({
   },
   filename(_req, file, cb) {
     const raw = file.originalname || 'video';
+    if (file.fieldname === 'files') {
+      // /compile clips: numbered in upload order, since their names may repeat
+      const req = _req as Request & { clipCount?: number };
+      req.clipCount = (req.clipCount ?? 0) + 1;
+      cb(null, `clip_${String(req.clipCount).padStart(3, '0')}${path.extname(sanitizeFilename(raw)) || '.mp4'}`);
+      return;
+    }
+    if (file.fieldname !== 'file') {
+      // auxiliary uploads get fixed names so they can never collide with the video
+      cb(null, `${file.fieldname}${path.extname(sanitizeFilename(raw))}`);
+      return;
+    }
     const ext = path.extname(raw) || '.mp4';
     const base = path.basename(raw, ext) || 'video';
     const safe = sanitizeFilename(base) + ext;
@@ -83,6 +112,30 @@ export const upload = multer({
   limits: { fileSize: MAX_FILE_SIZE_BYTES },
   fileFilter(_req, file, cb) {
     const mime = file.mimetype;
+    if (file.fieldname === 'watermark') {
+      if (!IMAGE_MIMES.has(mime)) {
+        cb(new Error('FILE_NOT_IMAGE'));
+        return;
+      }
+      cb(null, true);
+      return;
+    }
+    if (file.fieldname === 'captions') {
+      if (!isCaptionsUpload(mime, file.originalname)) {
+        cb(new Error('FILE_NOT_CAPTIONS'));
+        return;
+      }
+      cb(null, true);
+      return;
+    }
+    if (file.fieldname === 'music') {
+      if (!isMusicUpload(mime, file.originalname)) {
+        cb(new Error('FILE_NOT_AUDIO'));
+        return;
+      }
+      cb(null, true);
+      return;
+    }
     if (!isVideoMime(mime)) {
       cb(new Error('FILE_NOT_VIDEO'));
       return;
@@ -91,6 +144,158 @@ export const upload = multer({
   },
 });
 
+/** Multipart fields accepted by the conversion routes: the video plus optional auxiliary files. */
+export const UPLOAD_FIELDS: multer.Field[] = [
+  { name: 'file', maxCount: 1 },
+  { name: 'captions', maxCount: 1 },
+  { name: 'watermark', maxCount: 1 },
+  { name: 'music', maxCount: 1 },
+];
+
+/**
+ * Auxiliary upload (e.g. "captions") from upload.fields(), if present.
+ */
+export function uploadedFile(req: Request, field: string): Express.Multer.File | undefined {
+  const files = req.files as Record<string, Express.Multer.File[]> | undefined;
+  return files?.[field]?.[0];
+}
+
+/**
+ * JSON body { "sourceUrl": "https://..." } instead of a multipart upload: download the video into
+ * the request's tmp dir and expose it as req.file, so handlers need no changes. Runs after
+ * handleUpload; an uploaded file wins. On download error the tmp dir is removed and the error
+ * answered here.
+ */
+export async function sourceUrlMiddleware(req: Request, res: Response, next: () => void): Promise<void> {
+  const sourceUrl = (req.body as Record<string, unknown> | undefined)?.sourceUrl;
+  if (req.file || sourceUrl === undefined || sourceUrl === '') {
+    next();
+    return;
+  }
+  const reqId = (req as Request & { requestId: string }).requestId;
+  const tmpDir = (req as Request & { uniqueTmpDir: string }).uniqueTmpDir;
+  const controller = new AbortController();
+  const onClose = (): void => {
+    if (!res.writableFinished) controller.abort();
+  };
+  res.on('close', onClose);
+
+  try {
+    if (typeof sourceUrl !== 'string') {
+      throw new Error('SOURCE_URL_INVALID: sourceUrl must be a string');
+    }
+    const start = Date.now();
+    const source = await downloadSource(sourceUrl, tmpDir, controller.signal);
+    recordBytesIn('url', source.size);
+    log.info('sourceUrl downloaded', {
+      requestId: reqId,
+      bytes: source.size,
+      contentType: source.contentType || undefined,
+      elapsedMs: Date.now() - start,
+    });
+    const file: HashedFile = {
+      fieldname: 'file',
+      originalname: source.originalName,
+      encoding: '7bit',
+      mimetype: source.contentType || 'application/octet-stream',
+      size: source.size,
+      destination: tmpDir,
+      filename: path.basename(source.path),
+      path: source.path,
+      sha256: source.sha256,
+    } as HashedFile;
+    req.file = file;
+  } catch (e) {
+    try {
+      rmDirRecursive(tmpDir);
+    } catch {
+      /* ignore */
+    }
+    if (!res.headersSent && !controller.signal.aborted) {
+      const { status, error, message } = toErrorResponse(e);
+      res.status(status).json({ error, message });
+    }
+    return;
+  } finally {
+    res.off('close', onClose);
+  }
+  next();
+}
+
+/**
+ * AbortSignal that fires when the client goes away before the response finished, so the request's
+ * ffmpeg / ffprobe processes are killed instead of running on for nobody.
+ */
+export function disconnectSignal(req: Request, res: Response): AbortSignal {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (res.writableEnded) return;
+    log.info('client disconnected', { requestId: (req as Request & { requestId: string }).requestId });
+    controller.abort();
+  });
+  return controller.signal;
+}
+
+/**
+ * Send a result file with its metadata headers via res.sendFile, so GET and HEAD get ETag /
+ * Last-Modified, conditional requests (304) and single byte ranges (Accept-Ranges, 206, 416).
+ * onFinish runs once the response ended or failed.
+ */
+export function sendOutputFile(
+  res: Response,
+  reqId: string,
+  result: OutputFile,
+  onFinish?: () => void,
+): void {
+  res.set({
+    'Content-Type': result.contentType,
+    ...result.headers,
+    'Content-Disposition': `attachment; filename="${result.filename}"`,
+  });
+  res.sendFile(result.outPath, { dotfiles: 'allow', cacheControl: false }, (err?: Error & { status?: number; code?: string }) => {
+    onFinish?.();
+    // ECONNABORTED: the client went away mid-download
+    if (!err || err.code === 'ECONNABORTED') return;
+    if (res.headersSent) {
+      log.error('stream error', { requestId: reqId, error: err });
+      return;
+    }
+    res.removeHeader('Content-Disposition');
+    if (err.status === 416) {
+      res.status(416).json({ error: 'RANGE_NOT_SATISFIABLE', message: 'Requested range is outside the file.' });
+      return;
+    }
+    log.error('stream error', { requestId: reqId, error: err });
+    res.status(500).json({ error: 'INTERNAL_ERROR', message: 'Result file could not be read.' });
+  });
+}
+
+/**
+ * Send a conversion's output. With RESULT_RETENTION_SEC it stays downloadable at /results/:id
+ * (X-Result-* headers); otherwise tmpDir is removed once the response is done.
+ */
+export function sendConversionResult(req: Request, res: Response, tmpDir: string, result: OutputFile): void {
+  const reqId = (req as Request & { requestId: string }).requestId;
+  if (resultRetentionEnabled()) {
+    // a dropped download can be resumed from /results/:id instead of converting again
+    const retained = retainResult(reqId, tmpDir, result, requestApiKey(req)?.name);
+    res.set({
+      'X-Result-Id': reqId,
+      'X-Result-Expires-At': new Date(retained.expiresAt).toISOString(),
+      'Content-Location': `/results/${encodeURIComponent(reqId)}`,
+    });
+    sendOutputFile(res, reqId, result);
+    return;
+  }
+  sendOutputFile(res, reqId, result, () => {
+    try {
+      rmDirRecursive(tmpDir);
+    } catch {
+      /* ignore */
+    }
+  });
+}
+
 /**
  * POST /process/shorts
  */
@@ -98,119 +303,71 @@ export async function processShorts(req: Request, res: Response): Promise<void>
   const reqId = (req as Request & { requestId: string }).requestId;
   const tmpDir = (req as Request & { uniqueTmpDir: string }).uniqueTmpDir;
   const start = Date.now();
+  const signal = disconnectSignal(req, res);
 
   try {
     if (!req.file) {
-      res.status(400).json({ error: 'NO_FILE', message: 'No file uploaded. Use multipart field "file".' });
+      rmDirRecursive(tmpDir);
+      res.status(400).json({ error: 'NO_FILE', message: 'No file uploaded. Use multipart field "file", "uploadId" of a completed upload or a JSON body with "sourceUrl".' });
       return;
     }
 
     assertFileSize(req.file.size);
 
     const options = parseProcessOptions((req.body as Record<string, unknown>) || {});
-    const inputPath = req.file.path;
-    const meta = await getVideoMetadata(inputPath);
-    const validation = validateShorts(meta, options);
-
-    const shouldConvert =
-      options.forceConvert || !validation.shortsEligible;
-
-    let outPath: string;
-    let converted = false;
-    let conversionMode: ConversionMode = options.mode;
-    let finalMeta = meta;
-
-    if (shouldConvert) {
-      outPath = outputPath(tmpDir);
-      await convertToShorts(inputPath, outPath, options);
-      converted = true;
-      finalMeta = {
-        ...meta,
-        width: options.targetWidth,
-        height: options.targetHeight,
-        aspectRatio: options.targetWidth / options.targetHeight,
-      };
-    } else {
-      outPath = inputPath;
-    }
+    assertOptionsAllowed(requestApiKey(req), options);
+    // shares the JOB_CONCURRENCY slots with /jobs and /compile
+    const releaseSlot = await acquireConversionSlot(signal);
+    publishProgress({ requestId: reqId, status: 'running' });
+    const result = await runShortsPipeline(
+      {
+        inputPath: req.file.path,
+        originalName: req.file.originalname,
+        tmpDir,
+        captionsPath: uploadedFile(req, 'captions')?.path,
+        watermarkPath: uploadedFile(req, 'watermark')?.path,
+        musicPath: uploadedFile(req, 'music')?.path,
+        sourceSha256: fileSha256(req.file),
+        captionsSha256: fileSha256(uploadedFile(req, 'captions')),
+        watermarkSha256: fileSha256(uploadedFile(req, 'watermark')),
+        musicSha256: fileSha256(uploadedFile(req, 'music')),
+      },
+      options,
+      {
+        signal,
+        onProgress: (p, segment, segmentCount) => {
+          publishProgress({ requestId: reqId, status: 'running', ...p, segment, segmentCount });
+        },
+      },
+    ).finally(releaseSlot);
+    publishProgress({ requestId: reqId, status: 'done', percent: 100 });
+    chargeResult(requestApiKey(req), result);
+    const { meta, validation, converted, segments } = result;
 
     const elapsed = Date.now() - start;
-    console.log(
-      `[${reqId}] process/shorts | original ${meta.width}x${meta.height} ${meta.durationSec}s | ` +
-        `eligible=${validation.shortsEligible} converted=${converted} | ${elapsed}ms`,
-    );
-
-    const stat = fs.statSync(outPath);
-    const stream = fs.createReadStream(outPath);
-    const originalName = req.file.originalname || 'video';
-    const ext = path.extname(originalName) || '.mp4';
-    const base = path.basename(originalName, ext) || 'video';
-    const safeBase = sanitizeFilename(base);
-    const dispositionFilename = converted
-      ? `shorts_${safeBase}${ext}`
-      : `${safeBase}${ext}`;
-
-    const cleanup = (): void => {
-      try {
-        rmDirRecursive(tmpDir);
-      } catch {
-        /* ignore */
-      }
-    };
-    stream.on('end', cleanup);
-    stream.on('error', (streamErr) => {
-      console.error(`[${reqId}] stream error:`, (streamErr as Error).message);
-      cleanup();
+    log.info('process/shorts', {
+      requestId: reqId,
+      width: meta.width,
+      height: meta.height,
+      durationSec: meta.durationSec,
+      eligible: validation.shortsEligible,
+      converted,
+      segments: segments.length,
+      cache: result.headers['X-Cache'],
+      elapsedMs: elapsed,
     });
 
-    res.set({
-      'Content-Type': 'video/mp4',
-      'Content-Length': String(stat.size),
-      'X-Video-Width': String(finalMeta.width),
-      'X-Video-Height': String(finalMeta.height),
-      'X-Video-DurationSec': String(finalMeta.durationSec),
-      'X-Video-AspectRatio': String(finalMeta.aspectRatio),
-      'X-Shorts-Eligible': String(validation.shortsEligible),
-      'X-Converted': String(converted),
-      'X-Conversion-Mode': conversionMode,
-      'Content-Disposition': `attachment; filename="${dispositionFilename}"`,
-    });
-    stream.pipe(res);
+    sendConversionResult(req, res, tmpDir, result);
     return;
   } catch (e) {
-    const err = e as Error;
     try {
       rmDirRecursive(tmpDir);
     } catch {
       /* ignore */
     }
-    if (err.message === 'FILE_NOT_VIDEO') {
-      res.status(415).json({ error: 'UNSUPPORTED_MEDIA', message: 'File is not a video (invalid MIME type).' });
-      return;
-    }
-    if (err.message.includes('ffprobe') || err.message.includes('exited with code')) {
-      res.status(422).json({
-        error: 'PROBE_FAILED',
-        message: err.message,
-      });
-      return;
-    }
-    if (err.message.includes('ffmpeg') || err.message.includes('timeout')) {
-      res.status(500).json({
-        error: 'CONVERSION_FAILED',
-        message: err.message,
-      });
-      return;
-    }
-    if (err.message.includes('exceeds') && err.message.includes('MB')) {
-      res.status(400).json({ error: 'FILE_TOO_LARGE', message: err.message });
-      return;
-    }
-    if (err.message.includes('Path must be under temp') || err.message.includes('Path traversal')) {
-      res.status(400).json({ error: 'INVALID_PATH', message: err.message });
-      return;
-    }
-    res.status(500).json({ error: 'UNKNOWN', message: err.message });
+    const { status, error, message } = toErrorResponse(e);
+    publishProgress({ requestId: reqId, status: 'failed', error });
+    res.status(status).json({ error, message });
   }
 }
 
@@ -221,51 +378,104 @@ export async function inspect(req: Request, res: Response): Promise<void> {
   const reqId = (req as Request & { requestId: string }).requestId;
   const tmpDir = (req as Request & { uniqueTmpDir: string }).uniqueTmpDir;
   const start = Date.now();
+  const signal = disconnectSignal(req, res);
 
   try {
     if (!req.file) {
       rmDirRecursive(tmpDir);
-      res.status(400).json({ error: 'NO_FILE', message: 'No file uploaded. Use multipart field "file".' });
+      res.status(400).json({ error: 'NO_FILE', message: 'No file uploaded. Use multipart field "file", "uploadId" of a completed upload or a JSON body with "sourceUrl".' });
       return;
     }
 
     assertFileSize(req.file.size);
 
-    const options = parseProcessOptions((req.body as Record<string, unknown>) || {});
-    const meta = await getVideoMetadata(req.file.path);
+    const body = (req.body as Record<string, unknown>) || {};
+    const options = parseProcessOptions(body);
+    // probe + loudness are per file, so repeated inspects of the same bytes skip ffprobe / ffmpeg
+    const sha256 = fileSha256(req.file);
+    const cached = getCachedProbe(sha256);
+    const meta = cached?.meta ?? await getVideoMetadata(req.file.path, signal);
     const validation = validateShorts(meta, options);
+    // profiles=tiktok,instagram-reels (or all): same upload checked against each profile's rules
+    const profileChecks = resolveProfileList(body.profiles).map((profile) => {
+      const check = validateShorts(meta, parseProcessOptions({ ...body, profile: profile.id }));
+      return { profile: profile.id, shortsEligible: check.shortsEligible, reason: check.reasons };
+    });
+    const includeAutoPath = body.includeAutoPath === 'true' || body.includeAutoPath === true;
+    let autoPath: AutoFramePath | undefined;
+    if (includeAutoPath) {
+      // decodes the whole video for motion analysis, so it waits for a JOB_CONCURRENCY slot too
+      const releaseSlot = await acquireConversionSlot(signal);
+      autoPath = await analyzeAutoFrame(req.file.path, meta, options, signal).finally(releaseSlot);
+    }
+    // loudness is a full decode: only on request, and it waits for a JOB_CONCURRENCY slot like conversions do
+    const includeLoudness = body.includeLoudness === 'true' || body.includeLoudness === true;
+    let loudness = meta.hasAudio ? cached?.loudness : undefined;
+    const measure = includeLoudness && meta.hasAudio && !loudness;
+    if (measure) {
+      const releaseSlot = await acquireConversionSlot(signal);
+      loudness = await measureLoudness(req.file.path, options, undefined, signal).finally(releaseSlot);
+    }
+    const hit = cached !== undefined && !measure;
+    if (!hit) putCachedProbe(sha256, { meta, loudness });
+    if (sha256) res.set('X-Cache', hit ? 'HIT' : 'MISS');
+    // silent tracks measure as -inf; reported as null
+    const loudnessLevel = (value: number | undefined): number | null =>
+      value !== undefined && Number.isFinite(value) ? Math.round(value * 100) / 100 : null;
 
     const elapsed = Date.now() - start;
-    console.log(`[${reqId}] inspect | ${meta.width}x${meta.height} ${meta.durationSec}s | ${elapsed}ms`);
+    log.info('inspect', {
+      requestId: reqId,
+      width: meta.width,
+      height: meta.height,
+      durationSec: meta.durationSec,
+      cached: hit,
+      elapsedMs: elapsed,
+    });
 
     res.status(200).json({
       width: meta.width,
       height: meta.height,
       durationSec: Math.round(meta.durationSec * 1000) / 1000,
       aspectRatio: Math.round(meta.aspectRatio * 1000) / 1000,
+      profile: validation.profile,
       shortsEligible: validation.shortsEligible,
       reason: validation.reasons,
+      ...(profileChecks.length > 0 ? { profiles: profileChecks } : {}),
+      codedWidth: meta.codedWidth,
+      codedHeight: meta.codedHeight,
+      rotation: meta.rotation,
+      sampleAspectRatio: Math.round(meta.sampleAspectRatio * 1000) / 1000,
+      container: meta.container,
+      videoCodec: meta.videoCodec,
+      fps: meta.fps,
+      bitrate: meta.bitrate,
+      sizeBytes: meta.sizeBytes,
+      pixelFormat: meta.pixelFormat,
+      colorTransfer: meta.colorTransfer,
+      hdr: meta.hdr,
+      hasAudio: meta.hasAudio,
+      audioCodec: meta.audioCodec,
+      audioSampleRate: meta.audioSampleRate,
+      audioChannels: meta.audioChannels,
+      ...(includeLoudness
+        ? {
+          silent: loudness ? loudness.silent : null,
+          integratedLufs: loudnessLevel(loudness?.integratedLufs),
+          loudnessRangeLu: loudnessLevel(loudness?.loudnessRangeLu),
+          truePeakDb: loudnessLevel(loudness?.truePeakDb),
+        }
+        : {}),
+      ...(autoPath ? { autoPath } : {}),
     });
   } catch (e) {
-    const err = e as Error;
     try {
       rmDirRecursive(tmpDir);
     } catch {
       /* ignore */
     }
-    if (err.message === 'FILE_NOT_VIDEO') {
-      res.status(415).json({ error: 'UNSUPPORTED_MEDIA', message: 'File is not a video (invalid MIME type).' });
-      return;
-    }
-    if (err.message.includes('ffprobe') || err.message.includes('exited with code')) {
-      res.status(422).json({ error: 'PROBE_FAILED', message: err.message });
-      return;
-    }
-    if (err.message.includes('exceeds') && err.message.includes('MB')) {
-      res.status(400).json({ error: 'FILE_TOO_LARGE', message: err.message });
-      return;
-    }
-    res.status(500).json({ error: 'UNKNOWN', message: err.message });
+    const { status, error, message } = toErrorResponse(e);
+    res.status(status).json({ error, message });
   } finally {
     try {
       rmDirRecursive(tmpDir);
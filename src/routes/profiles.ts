@@ -0,0 +1,11 @@
+/**
+ * GET /profiles — platform profiles usable as the profile / profiles fields.
+ */
+
+import type { Request, Response } from 'express';
+import { DEFAULT_PROFILE } from '../types';
+import { listProfiles } from '../utils/profiles';
+
+export function getProfiles(_req: Request, res: Response): void {
+  res.json({ default: DEFAULT_PROFILE.id, profiles: listProfiles() });
+}
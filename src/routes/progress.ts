@@ -0,0 +1,60 @@
+/**
+ * GET /process/progress/:requestId — Server-Sent Events stream of conversion progress.
+ * Works for /process/shorts requests (X-Request-Id) and jobs (job id).
+ */
+
+import type { Request, Response } from 'express';
+import { isFinalProgress, subscribeProgress } from '../utils/progress';
+
+const HEARTBEAT_MS = 15 * 1000;
+/** Close the stream if nothing is published for this id within this window. */
+const IDLE_TIMEOUT_MS = 2 * 60 * 1000;
+
+export function streamProgress(req: Request, res: Response): void {
+  const requestId = req.params.requestId;
+
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+  res.write('retry: 2000\n\n');
+
+  let closed = false;
+  let idleTimer: NodeJS.Timeout | undefined;
+  let unsubscribe: () => void = () => {};
+
+  const close = (): void => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeat);
+    if (idleTimer) clearTimeout(idleTimer);
+    unsubscribe();
+    res.end();
+  };
+  const resetIdle = (): void => {
+    if (idleTimer) clearTimeout(idleTimer);
+    idleTimer = setTimeout(() => {
+      res.write(`event: end\ndata: ${JSON.stringify({ requestId, status: 'unknown' })}\n\n`);
+      close();
+    }, IDLE_TIMEOUT_MS);
+  };
+
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+  resetIdle();
+
+  unsubscribe = subscribeProgress(requestId, (event) => {
+    if (closed) return;
+    res.write(`event: progress\ndata: ${JSON.stringify(event)}\n\n`);
+    resetIdle();
+    if (isFinalProgress(event)) {
+      res.write(`event: end\ndata: ${JSON.stringify(event)}\n\n`);
+      // Defer so subscribeProgress returns (and unsubscribe is assigned) before closing.
+      setImmediate(close);
+    }
+  });
+
+  req.on('close', close);
+}
@@ -0,0 +1,24 @@
+/**
+ * GET / HEAD /results/:id — re-download a retained /process/shorts output (utils/results).
+ */
+
+import type { Request, Response } from 'express';
+import { getRetainedResult } from '../utils/results';
+import { requestApiKey } from './auth';
+import { sendOutputFile } from './process';
+
+/**
+ * The output of the /process/shorts request with this X-Result-Id, with the same metadata headers,
+ * resumable via Range until X-Result-Expires-At. 404 RESULT_NOT_FOUND when unknown, expired or
+ * produced by another API key.
+ */
+export function getResult(req: Request, res: Response): void {
+  const found = getRetainedResult(req.params.id);
+  const result = found && found.owner === requestApiKey(req)?.name ? found : undefined;
+  if (!result) {
+    res.status(404).json({ error: 'RESULT_NOT_FOUND', message: 'No such result (unknown id or expired).' });
+    return;
+  }
+  res.set('X-Result-Expires-At', new Date(result.expiresAt).toISOString());
+  sendOutputFile(res, result.id, result.output);
+}
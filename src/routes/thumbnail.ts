@@ -0,0 +1,74 @@
+/**
+ * POST /thumbnail — stills from an uploaded video (timestamp, frames ZIP, best frame, contact sheet).
+ */
+
+import type { Request, Response } from 'express';
+import { toErrorResponse } from '../utils/errors';
+import { getVideoMetadata } from '../utils/ffprobe';
+import { acquireConversionSlot } from '../utils/jobs';
+import { log } from '../utils/logger';
+import { parseProcessOptions, parseThumbnailOptions } from '../utils/options';
+import { renderThumbnails } from '../utils/thumbnail';
+import { assertFileSize, rmDirRecursive } from '../utils/tmp';
+import { disconnectSignal, sendOutputFile } from './process';
+
+export async function thumbnail(req: Request, res: Response): Promise<void> {
+  const reqId = (req as Request & { requestId: string }).requestId;
+  const tmpDir = (req as Request & { uniqueTmpDir: string }).uniqueTmpDir;
+  const start = Date.now();
+  const signal = disconnectSignal(req, res);
+
+  try {
+    if (!req.file) {
+      rmDirRecursive(tmpDir);
+      res.status(400).json({ error: 'NO_FILE', message: 'No file uploaded. Use multipart field "file".' });
+      return;
+    }
+
+    assertFileSize(req.file.size);
+
+    const body = (req.body as Record<string, unknown>) || {};
+    const thumb = parseThumbnailOptions(body);
+    const procOptions = parseProcessOptions(body);
+    const meta = await getVideoMetadata(req.file.path, signal);
+    // shares the JOB_CONCURRENCY slots with conversions
+    const releaseSlot = await acquireConversionSlot(signal);
+    const result = await renderThumbnails(
+      req.file.path,
+      req.file.originalname,
+      meta,
+      tmpDir,
+      thumb,
+      procOptions,
+      signal,
+    ).finally(releaseSlot);
+
+    const elapsed = Date.now() - start;
+    log.info('thumbnail', {
+      requestId: reqId,
+      width: meta.width,
+      height: meta.height,
+      durationSec: meta.durationSec,
+      select: thumb.select,
+      framing: thumb.framing,
+      format: thumb.format,
+      elapsedMs: elapsed,
+    });
+
+    sendOutputFile(res, reqId, result, () => {
+      try {
+        rmDirRecursive(tmpDir);
+      } catch {
+        /* ignore */
+      }
+    });
+  } catch (e) {
+    try {
+      rmDirRecursive(tmpDir);
+    } catch {
+      /* ignore */
+    }
+    const { status, error, message } = toErrorResponse(e);
+    res.status(status).json({ error, message });
+  }
+}
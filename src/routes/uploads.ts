@@ -0,0 +1,207 @@
+/**
+ * Resumable uploads (utils/uploads): POST /uploads, PATCH /uploads/:id, GET / HEAD /uploads/:id,
+ * POST /uploads/:id/complete, DELETE /uploads/:id, and the uploadId source of the conversion routes.
+ */
+
+import type { Request, Response } from 'express';
+import * as path from 'path';
+import { toErrorResponse } from '../utils/errors';
+import type { HashedFile } from '../utils/hashstorage';
+import { log } from '../utils/logger';
+import { recordBytesIn } from '../utils/metrics';
+import { rmDirRecursive } from '../utils/tmp';
+import {
+  appendChunk,
+  completeUpload,
+  createUpload,
+  getUpload,
+  linkUploadInto,
+  parseSha256,
+  removeUpload,
+  type ResumableUpload,
+  UPLOAD_CHUNK_MAX_BYTES,
+} from '../utils/uploads';
+import { requestApiKey } from './auth';
+import { disconnectSignal, isVideoMime } from './process';
+
+/** Content type guessed from the file name when POST /uploads has no mimeType. */
+const EXT_MIMES: Record<string, string> = {
+  '.mp4': 'video/mp4',
+  '.m4v': 'video/mp4',
+  '.mov': 'video/quicktime',
+  '.avi': 'video/x-msvideo',
+  '.webm': 'video/webm',
+  '.mkv': 'video/x-matroska',
+};
+
+function uploadView(upload: ResumableUpload): Record<string, unknown> {
+  return {
+    uploadId: upload.id,
+    status: upload.status,
+    filename: upload.originalName,
+    size: upload.size,
+    offset: upload.offset,
+    sha256: upload.sha256,
+    chunkSizeMax: UPLOAD_CHUNK_MAX_BYTES,
+    expiresAt: new Date(upload.expiresAt).toISOString(),
+  };
+}
+
+function sendError(res: Response, e: unknown, upload?: ResumableUpload): void {
+  const { status, error, message } = toErrorResponse(e);
+  // where to resume from after a rejected or failed chunk
+  if (upload && getUpload(upload.id)) res.set('Upload-Offset', String(upload.offset));
+  res.status(status).json({ error, message });
+}
+
+/** Upload by id; another API key's upload is reported as not found. */
+function findUpload(id: unknown, req: Request): ResumableUpload {
+  const found = typeof id === 'string' ? getUpload(id) : undefined;
+  if (!found || found.owner !== requestApiKey(req)?.name) {
+    throw new Error('UPLOAD_NOT_FOUND: No such upload (unknown id or expired).');
+  }
+  return found;
+}
+
+/**
+ * POST /uploads — JSON `{filename, size, mimeType?, sha256?}`; 201 with the upload id, offset 0 and
+ * the largest chunk accepted. sha256 (hex) is checked when the upload completes.
+ */
+export function createUploadHandler(req: Request, res: Response): void {
+  const reqId = (req as Request & { requestId: string }).requestId;
+  try {
+    const body = (req.body as Record<string, unknown>) || {};
+    const filename = typeof body.filename === 'string' && body.filename.trim() ? body.filename.trim() : 'video.mp4';
+    const mimeType = typeof body.mimeType === 'string' && body.mimeType
+      ? body.mimeType
+      : EXT_MIMES[path.extname(filename).toLowerCase()] ?? '';
+    if (!isVideoMime(mimeType)) throw new Error('FILE_NOT_VIDEO');
+    const size = typeof body.size === 'string' ? Number(body.size) : body.size;
+    const upload = createUpload(
+      { originalName: filename, mimetype: mimeType, size: size as number, sha256: parseSha256(body.sha256, 'sha256') },
+      requestApiKey(req)?.name,
+    );
+    log.info('upload created', { requestId: reqId, uploadId: upload.id, size: upload.size });
+    res.status(201).location(`/uploads/${upload.id}`).set('Upload-Offset', '0').json(uploadView(upload));
+  } catch (e) {
+    sendError(res, e);
+  }
+}
+
+/**
+ * PATCH /uploads/:id — append the raw body (application/octet-stream) at the Upload-Offset header.
+ * Optional X-Chunk-SHA256 (hex) is verified before the chunk counts. Answers the new offset; on
+ * 409 UPLOAD_OFFSET_MISMATCH or a failed chunk, the Upload-Offset header says where to resume.
+ */
+export async function appendUploadHandler(req: Request, res: Response): Promise<void> {
+  let upload: ResumableUpload | undefined;
+  try {
+    upload = findUpload(req.params.id, req);
+    if (!req.is(['application/octet-stream', 'application/offset+octet-stream'])) {
+      throw new Error('INVALID_UPLOAD: send the chunk as the raw body with Content-Type application/octet-stream');
+    }
+    const offsetHeader = req.get('Upload-Offset') ?? '';
+    if (!/^\d+$/.test(offsetHeader)) {
+      throw new Error('INVALID_UPLOAD: Upload-Offset header (bytes already sent) is required');
+    }
+    const chunkSha256 = parseSha256(req.get('X-Chunk-SHA256'), 'X-Chunk-SHA256');
+    const lengthHeader = req.get('Content-Length');
+    const signal = disconnectSignal(req, res);
+    const written = await appendChunk(
+      upload,
+      Number(offsetHeader),
+      req,
+      chunkSha256,
+      signal,
+      lengthHeader && /^\d+$/.test(lengthHeader) ? Number(lengthHeader) : undefined,
+    );
+    recordBytesIn('upload', written);
+    res.set('Upload-Offset', String(upload.offset)).json(uploadView(upload));
+  } catch (e) {
+    if (res.headersSent || res.destroyed) return;
+    sendError(res, e, upload);
+  }
+}
+
+/** GET / HEAD /uploads/:id — status and offset, e.g. to resume after a dropped connection. */
+export function getUploadStatus(req: Request, res: Response): void {
+  try {
+    const upload = findUpload(req.params.id, req);
+    res.set({ 'Upload-Offset': String(upload.offset), 'Cache-Control': 'no-store' }).json(uploadView(upload));
+  } catch (e) {
+    sendError(res, e);
+  }
+}
+
+/**
+ * POST /uploads/:id/complete — optional JSON `{sha256}`; checks that every byte arrived and the
+ * file's SHA-256. The upload id can then be passed as uploadId until it expires.
+ */
+export function completeUploadHandler(req: Request, res: Response): void {
+  const reqId = (req as Request & { requestId: string }).requestId;
+  let upload: ResumableUpload | undefined;
+  try {
+    upload = findUpload(req.params.id, req);
+    const body = (req.body as Record<string, unknown>) || {};
+    completeUpload(upload, parseSha256(body.sha256, 'sha256'));
+    log.info('upload complete', {
+      requestId: reqId,
+      uploadId: upload.id,
+      bytes: upload.size,
+      elapsedMs: Date.now() - upload.createdAt,
+    });
+    res.json(uploadView(upload));
+  } catch (e) {
+    sendError(res, e, upload);
+  }
+}
+
+/** DELETE /uploads/:id — discard the upload and its bytes. */
+export function deleteUploadHandler(req: Request, res: Response): void {
+  try {
+    removeUpload(findUpload(req.params.id, req));
+    res.status(204).end();
+  } catch (e) {
+    sendError(res, e);
+  }
+}
+
+/**
+ * Body field "uploadId" (multipart or JSON) instead of a "file" upload: put the completed upload's
+ * file into the request's tmp dir and expose it as req.file, so handlers need no changes. The
+ * upload stays usable until it expires. Runs after handleUpload; an uploaded file wins.
+ */
+export function uploadIdMiddleware(req: Request, res: Response, next: () => void): void {
+  const uploadId = (req.body as Record<string, unknown> | undefined)?.uploadId;
+  if (req.file || uploadId === undefined || uploadId === '') {
+    next();
+    return;
+  }
+  const tmpDir = (req as Request & { uniqueTmpDir: string }).uniqueTmpDir;
+  try {
+    const upload = findUpload(uploadId, req);
+    const filePath = linkUploadInto(upload, tmpDir);
+    const file: HashedFile = {
+      fieldname: 'file',
+      originalname: upload.originalName,
+      encoding: '7bit',
+      mimetype: upload.mimetype,
+      size: upload.size,
+      destination: tmpDir,
+      filename: path.basename(filePath),
+      path: filePath,
+      sha256: upload.sha256,
+    } as HashedFile;
+    req.file = file;
+  } catch (e) {
+    try {
+      rmDirRecursive(tmpDir);
+    } catch {
+      /* ignore */
+    }
+    const { status, error, message } = toErrorResponse(e);
+    res.status(status).json({ error, message });
+    return;
+  }
+  next();
+}
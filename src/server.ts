@@ -1,55 +1,81 @@
 /**
  * Video Shorts Processing API — Express server.
- * GET /health, POST /process/shorts, POST /inspect.
+ * GET /health, POST /process/shorts, GET /process/progress/:id (SSE), POST /inspect, POST /thumbnail,
+ * POST /compile (multi-clip), GET /results/:id (Range), /jobs (async API), /uploads (resumable
+ * uploads), GET /profiles, GET /music, GET /usage, GET /metrics (Prometheus).
+ * All but /health need an API key when keys are configured. Every response carries
+ * X-Request-Id; logs are JSON lines.
+ * SIGTERM drains (see utils/shutdown) before exiting.
  */
 
 import express, { type Request, type Response, type NextFunction } from 'express';
+import type multer from 'multer';
 import {
   processTmpMiddleware,
   upload,
   processShorts,
   inspect,
+  requireDiskSpace,
+  sourceUrlMiddleware,
+  UPLOAD_FIELDS,
+  uploadedFile,
 } from './routes/process';
+import { conversionSlot, getUsage, requireApiKey } from './routes/auth';
+import { COMPILE_FIELDS, compile } from './routes/compile';
+import { drainGuard, getHealth } from './routes/health';
+import { createJob, deleteJob, getJobResult, getJobStatus } from './routes/jobs';
+import { getMetrics, requestContext } from './routes/metrics';
+import { getMusic } from './routes/music';
+import { getProfiles } from './routes/profiles';
+import { getResult } from './routes/results';
+import { streamProgress } from './routes/progress';
+import { thumbnail } from './routes/thumbnail';
+import {
+  appendUploadHandler,
+  completeUploadHandler,
+  createUploadHandler,
+  deleteUploadHandler,
+  getUploadStatus,
+  uploadIdMiddleware,
+} from './routes/uploads';
+import { apiKeysEnabled } from './utils/apikeys';
+import { initCache } from './utils/cache';
+import { toErrorResponse } from './utils/errors';
+import { log } from './utils/logger';
+import { listProfiles } from './utils/profiles';
+import { installShutdownHandlers } from './utils/shutdown';
+import { startTmpJanitor } from './utils/storage';
 import { rmDirRecursive } from './utils/tmp';
 import { MAX_FILE_SIZE_BYTES } from './types';
 
 const app = express();
 const PORT = Number(process.env.PORT) || 3000;
 
-app.use(express.json({ limit: '1kb' }));
+app.use(requestContext);
+app.use(drainGuard);
+app.use(express.json({ limit: '16kb' }));
+
+app.get('/health', getHealth);
+
+// everything below needs an API key when keys are configured
+app.use(requireApiKey);
 
-app.get('/health', (_req: Request, res: Response) => {
-  res.json({ status: 'ok' });
+app.get('/metrics', (req: Request, res: Response, next: NextFunction) => {
+  getMetrics(req, res).catch(next);
 });
 
-app.post(
-  '/process/shorts',
-  processTmpMiddleware,
-  (req: Request, res: Response, next: NextFunction) => {
-    upload.single('file')(req, res, (err: unknown) => {
-      if (err) {
-        const tmpDir = (req as Request & { uniqueTmpDir?: string }).uniqueTmpDir;
-        if (tmpDir) {
-          try {
-            rmDirRecursive(tmpDir);
-          } catch {
-            /* ignore */
-          }
-        }
-        next(err);
-        return;
-      }
-      next();
-    });
-  },
-  processShorts,
-);
+app.get('/usage', getUsage);
 
-app.post(
-  '/inspect',
-  processTmpMiddleware,
-  (req: Request, res: Response, next: NextFunction) => {
-    upload.single('file')(req, res, (err: unknown) => {
+/** Routes that only take the video. */
+const VIDEO_ONLY: multer.Field[] = [{ name: 'file', maxCount: 1 }];
+
+/**
+ * Middleware running multer for the given fields; on upload error remove the request's tmp dir.
+ * The video is promoted to req.file so handlers read it the same way as a single upload.
+ */
+function handleUpload(fields: multer.Field[]) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    upload.fields(fields)(req, res, (err: unknown) => {
       if (err) {
         const tmpDir = (req as Request & { uniqueTmpDir?: string }).uniqueTmpDir;
         if (tmpDir) {
@@ -62,11 +88,46 @@ app.post(
         next(err);
         return;
       }
+      req.file = uploadedFile(req, 'file');
       next();
     });
-  },
-  inspect,
-);
+  };
+}
+
+/** With callbackUrl the conversion runs as a job (202 + webhook) instead of in the request. */
+function processOrQueue(req: Request, res: Response): void {
+  if ((req.body as Record<string, unknown> | undefined)?.callbackUrl) {
+    createJob(req, res);
+    return;
+  }
+  void processShorts(req, res);
+}
+
+app.post('/process/shorts', conversionSlot, requireDiskSpace, processTmpMiddleware, handleUpload(UPLOAD_FIELDS), uploadIdMiddleware, sourceUrlMiddleware, processOrQueue);
+
+app.get('/process/progress/:requestId', streamProgress);
+// GET also answers HEAD (headers only)
+app.get('/results/:id', getResult);
+
+app.post('/inspect', conversionSlot, requireDiskSpace, processTmpMiddleware, handleUpload(VIDEO_ONLY), uploadIdMiddleware, sourceUrlMiddleware, inspect);
+
+app.post('/thumbnail', conversionSlot, requireDiskSpace, processTmpMiddleware, handleUpload(VIDEO_ONLY), thumbnail);
+
+app.post('/compile', conversionSlot, requireDiskSpace, processTmpMiddleware, handleUpload(COMPILE_FIELDS), compile);
+
+app.post('/jobs', conversionSlot, requireDiskSpace, processTmpMiddleware, handleUpload(UPLOAD_FIELDS), uploadIdMiddleware, sourceUrlMiddleware, createJob);
+app.get('/jobs/:id', getJobStatus);
+app.get('/jobs/:id/result', getJobResult);
+app.delete('/jobs/:id', deleteJob);
+
+app.post('/uploads', requireDiskSpace, createUploadHandler);
+app.patch('/uploads/:id', appendUploadHandler);
+app.get('/uploads/:id', getUploadStatus);
+app.post('/uploads/:id/complete', completeUploadHandler);
+app.delete('/uploads/:id', deleteUploadHandler);
+
+app.get('/profiles', getProfiles);
+app.get('/music', getMusic);
 
 interface MulterLimitsError {
   code?: string;
@@ -77,11 +138,10 @@ app.use((err: unknown, _req: Request, res: Response, _next: NextFunction) => {
   const e = err as Error & MulterLimitsError;
   const msg = e.message ?? 'Unknown error';
 
-  if (msg === 'FILE_NOT_VIDEO') {
-    res.status(415).json({
-      error: 'UNSUPPORTED_MEDIA',
-      message: 'File is not a video (invalid MIME type).',
-    });
+  if (msg.startsWith('FILE_NOT_')) {
+    // fileFilter rejections (video / captions / watermark / music): same codes as the route handlers
+    const { status, error, message } = toErrorResponse(err);
+    res.status(status).json({ error, message });
     return;
   }
   if (e.code === 'LIMIT_FILE_SIZE' || msg.includes('File too large')) {
@@ -94,7 +154,7 @@ app.use((err: unknown, _req: Request, res: Response, _next: NextFunction) => {
   if (msg === 'missing uniqueTmpDir' || msg.includes('Unexpected field')) {
     res.status(400).json({
       error: 'BAD_REQUEST',
-      message: msg === 'Unexpected field' ? 'Use multipart field "file" only.' : msg,
+      message: msg === 'Unexpected field' ? 'Unexpected multipart field. Use "file" (plus "captions", "watermark", "music" on conversion routes; "files" on /compile).' : msg,
     });
     return;
   }
@@ -105,6 +165,15 @@ app.use((err: unknown, _req: Request, res: Response, _next: NextFunction) => {
   });
 });
 
-app.listen(PORT, () => {
-  console.log(`Video Shorts API listening on port ${PORT}`);
+// fail at startup, not on the first request, when PROFILES_FILE / API_KEYS_FILE is invalid
+listProfiles();
+apiKeysEnabled();
+// verify cached results in the background; lookups miss until it is done
+initCache().catch((e: Error) => log.error('cache disabled', { error: e }));
+// orphaned request / job dirs from a crash or failed cleanup; the cache dir is skipped
+startTmpJanitor();
+
+const server = app.listen(PORT, () => {
+  log.info('Video Shorts API listening', { port: PORT });
 });
+installShutdownHandlers(server);
@@ -3,43 +3,581 @@
  */
 
 export interface VideoMetadata {
+  /** Display size: rotation and sample aspect ratio applied (what players and ffmpeg filters see). */
   width: number;
   height: number;
   durationSec: number;
   aspectRatio: number;
   hasAudio: boolean;
+  /** Stored frame size, before rotation / sample aspect ratio. */
+  codedWidth: number;
+  codedHeight: number;
+  /** Clockwise display rotation in degrees (display matrix or rotate tag): 0, 90, 180 or 270. */
+  rotation: number;
+  /** Pixel (sample) aspect ratio as width / height; 1 for square pixels. */
+  sampleAspectRatio: number;
+  /** Container format names as reported by ffprobe (e.g. "mov,mp4,m4a,3gp,3g2,mj2"). */
+  container: string;
+  videoCodec: string;
+  audioCodec: string | null;
+  /** Average frame rate; 0 when unknown. */
+  fps: number;
+  /** Overall bitrate in bits/s; null when unknown. */
+  bitrate: number | null;
+  pixelFormat: string | null;
+  /** Transfer characteristics (e.g. "bt709", "smpte2084"); null when untagged. */
+  colorTransfer: string | null;
+  /** PQ (smpte2084) or HLG (arib-std-b67) transfer. */
+  hdr: boolean;
+  audioSampleRate: number | null;
+  audioChannels: number | null;
+  /** File size in bytes. */
+  sizeBytes: number;
 }
 
 export interface ShortsValidation {
+  /** Profile the rules came from. */
+  profile: string;
   isVertical: boolean;
   aspectOk: boolean;
   durationOk: boolean;
+  resolutionOk: boolean;
+  fileSizeOk: boolean;
+  fpsOk: boolean;
+  bitrateOk: boolean;
   shortsEligible: boolean;
   reasons: string[];
 }
 
-export type ConversionMode = 'pad' | 'blur';
+/**
+ * Platform rules and encoding targets (built-in or from PROFILES_FILE).
+ * Validation: target aspect and orientation, duration, min resolution, file size, fps and bitrate.
+ * Encoding: output size, fps cap and video bitrate cap. null = no limit.
+ */
+export interface PlatformProfile {
+  /** Lower-case id used in the profile field, e.g. "tiktok". */
+  id: string;
+  name: string;
+  targetWidth: number;
+  targetHeight: number;
+  /** Allowed |aspect - targetWidth / targetHeight|. */
+  tolerance: number;
+  maxDurationSec: number;
+  /** Minimum display size of an upload to pass through unconverted. */
+  minWidth: number;
+  minHeight: number;
+  maxFileSizeMB: number | null;
+  maxFps: number | null;
+  maxBitrateKbps: number | null;
+}
+
+export type ConversionMode = 'pad' | 'blur' | 'crop' | 'auto';
+
+/**
+ * How to handle sources longer than maxDurationSec when converting.
+ * none: keep full length; trim: keep one window; split: consecutive segments.
+ */
+export type DurationStrategy = 'none' | 'trim' | 'split';
+
+/** A time window of the source, in seconds. */
+export interface Segment {
+  startSec: number;
+  durationSec: number;
+}
+
+/** What removeSilence cut: source windows kept and removed, length before and after. */
+export interface SilenceRemoval {
+  kept: Segment[];
+  removed: Segment[];
+  originalDurationSec: number;
+  durationSec: number;
+}
+
+/** Source-pixel window cut out by crop mode (ffmpeg crop=width:height:x:y), then scaled to target. */
+export interface CropWindow {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** targetWidth / width; > 1 means the crop is upscaled. */
+  upscale: number;
+}
+
+/** One point of an auto-reframe path: crop window top-left (source px) at a source time. */
+export interface AutoFrameKeyframe {
+  timeSec: number;
+  x: number;
+  y: number;
+}
+
+/** Result of auto-reframe motion analysis. */
+export interface AutoFramePath {
+  /** Crop window size in source pixels (constant over time). */
+  width: number;
+  height: number;
+  upscale: number;
+  /** 0–1: share of sampled frames with enough localized motion to track. */
+  confidence: number;
+  /** True when tracking was not usable and conversion falls back to blur. */
+  fallback: boolean;
+  fallbackReason?: string;
+  keyframes: AutoFrameKeyframe[];
+}
+
+/** Parsed ffmpeg -progress output for one conversion. */
+export interface ConversionProgress {
+  /** 0–100, based on the probed (or segment) duration. */
+  percent: number;
+  /** Media time encoded so far. */
+  outTimeSec: number;
+  /** Media duration being encoded. */
+  durationSec: number;
+  /** Wall-clock seconds since ffmpeg started. */
+  elapsedSec: number;
+  /** Encoding speed as a multiple of realtime; null until ffmpeg reports it. */
+  speed: number | null;
+  /** Estimated seconds remaining; null while speed is unknown. */
+  etaSec: number | null;
+}
+
+/** Per-call context for convertToShorts (not user options). */
+export interface ConvertContext {
+  /** Source window for trim / split; omit to convert the whole file. */
+  segment?: Segment;
+  /** Abort kills the ffmpeg process. */
+  signal?: AbortSignal;
+  /** Probed source duration; used for percent / ETA when no segment is given. */
+  durationSec?: number;
+  /** Called on every ffmpeg progress block. */
+  onProgress?: (progress: ConversionProgress) => void;
+  /** Required for mode=crop: window from computeCropWindow. */
+  crop?: CropWindow;
+  /** Required for mode=auto: path from analyzeAutoFrame. */
+  autoPath?: AutoFramePath;
+  /** ASS subtitle file (already shifted to this segment's t=0) to burn in. */
+  subtitlesPath?: string;
+  /** Logo image overlaid per options.watermark. */
+  watermarkPath?: string;
+  /** Background music mixed in per options.music. */
+  musicPath?: string;
+  /** Source has an audio track; with musicPath, false makes the music the only track. */
+  hasAudio?: boolean;
+  /** Source pixel aspect ratio; non-square pixels are resampled to square before reframing. */
+  sampleAspectRatio?: number;
+  /** Target-size mode: two-pass encode at this average video bitrate (see targetVideoBitrateKbps). */
+  videoBitrateKbps?: number;
+  /** First-pass loudnorm measurement of this window; enables the second (linear) pass. */
+  loudness?: LoudnessMeasurement;
+}
+
+/** EBU R128 levels as reported by ffmpeg loudnorm (input_* or output_* values). */
+export interface LoudnessMeasurement {
+  /** Integrated loudness in LUFS; -Infinity for digital silence. */
+  integratedLufs: number;
+  /** True peak in dBTP. */
+  truePeakDb: number;
+  /** Loudness range in LU. */
+  loudnessRangeLu: number;
+  /** Gating threshold in LUFS. */
+  thresholdLufs: number;
+  /** Gain offset loudnorm suggests for the second pass. */
+  targetOffsetLu: number;
+  /** No gated signal (integrated loudness below -70 LUFS); not normalized. */
+  silent: boolean;
+}
+
+/** Burned-in caption styling (captions upload on /process/shorts). */
+export interface CaptionStyle {
+  /** Font size in output pixels. */
+  fontSize: number;
+  /** Text color, #RRGGBB. */
+  color: string;
+  /** Outline color, #RRGGBB. */
+  outlineColor: string;
+  /** Outline thickness in output pixels (0 = none). */
+  outline: number;
+  /** Vertical center of the caption block as a fraction of output height; null = auto (below the picture). */
+  position: number | null;
+  /** Wrap lines longer than this many characters. */
+  maxLineChars: number;
+}
+
+export type WatermarkPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'center';
+
+/** Logo overlay placement (watermark upload on /process/shorts). */
+export interface WatermarkOptions {
+  position: WatermarkPosition;
+  /** Absolute top-left in output pixels; overrides position when both are set. */
+  x: number | null;
+  y: number | null;
+  /** Distance from the edges for corner positions, in output pixels. */
+  margin: number;
+  /** Logo width as a fraction of output width. */
+  scale: number;
+  /** 0–1. */
+  opacity: number;
+  /** Source-time window in seconds; null = from start / until end. */
+  startSec: number | null;
+  endSec: number | null;
+}
+
+/** Background music mixed under the source audio (music upload or musicTrack from MUSIC_DIR). */
+export interface MusicOptions {
+  /** File name in the MUSIC_DIR library; null = none (an uploaded "music" file wins). */
+  track: string | null;
+  /** Gain applied to the music, 1 = unchanged. */
+  volume: number;
+  fadeInSec: number;
+  fadeOutSec: number;
+  /** Repeat the track until the video ends; otherwise it plays once. */
+  loop: boolean;
+  /** Lower the music while the source audio is loud (sidechain compression). */
+  ducking: boolean;
+  /** ducking: compression ratio applied to the music over the threshold. */
+  duckRatio: number;
+}
+
+export type X264Preset =
+  | 'ultrafast'
+  | 'superfast'
+  | 'veryfast'
+  | 'faster'
+  | 'fast'
+  | 'medium'
+  | 'slow'
+  | 'slower'
+  | 'veryslow';
+
+/**
+ * Output container / codecs. gif and webp are short animated previews (no audio).
+ * null (default) = MP4/H.264 for conversions, the original file for passthrough.
+ */
+export type OutputFormat = 'mp4-h264' | 'mp4-hevc' | 'webm-vp9' | 'gif' | 'webp';
+
+export type H264Profile = 'baseline' | 'main' | 'high';
+
+/** libx264 / AAC settings for conversions; caps already merged with the profile's. */
+export interface EncodingOptions {
+  /** Constant quality (0–51, lower is better); ignored when targetSizeMB is set. */
+  crf: number;
+  preset: X264Preset;
+  /** VBV cap (-maxrate); null = uncapped. */
+  maxBitrateKbps: number | null;
+  /** VBV buffer (-bufsize); defaults to 2x maxBitrateKbps. */
+  bufsizeKbps: number | null;
+  /** Output frame-rate cap (-fpsmax); null = keep source rate. */
+  maxFps: number | null;
+  audioBitrateKbps: number;
+  /** null = encoder default. */
+  h264Profile: H264Profile | null;
+  /** e.g. "4.1"; null = encoder default. */
+  h264Level: string | null;
+  /** Two-pass encode sized to land under this many MB per output file; null = CRF. */
+  targetSizeMB: number | null;
+}
 
 export interface ProcessOptions {
+  /** Platform rules; targetWidth / targetHeight / maxDurationSec / tolerance default from it. */
+  profile: PlatformProfile;
   mode: ConversionMode;
   targetWidth: number;
   targetHeight: number;
   maxDurationSec: number;
   tolerance: number;
   forceConvert: boolean;
+  durationStrategy: DurationStrategy;
+  startOffsetSec: number;
+  /** crop mode: point of the source to keep centered, as a fraction of width / height. */
+  focusX: number;
+  focusY: number;
+  /** crop mode: explicit top-left of the window in source pixels; overrides focusX / focusY. */
+  cropX: number | null;
+  cropY: number | null;
+  /** crop mode: reject when the window would be scaled up by more than this factor. */
+  maxUpscale: number;
+  captionStyle: CaptionStyle;
+  watermark: WatermarkOptions;
+  music: MusicOptions;
+  /** Two-pass EBU R128 loudnorm on the audio track (forces a re-encode). */
+  normalizeAudio: boolean;
+  /** normalizeAudio: integrated loudness target in LUFS. */
+  targetLufs: number;
+  /** normalizeAudio: true-peak ceiling in dBTP. */
+  truePeakDb: number;
+  /** Cut silent spans (silencedetect) out of audio and video before reframing (forces a re-encode). */
+  removeSilence: boolean;
+  /** removeSilence: audio below this level counts as silence, in dBFS. */
+  silenceThresholdDb: number;
+  /** removeSilence: shortest silence that is cut, in seconds. */
+  silenceMinSec: number;
+  /** removeSilence: silence kept on each side of a cut so speech is not clipped, in seconds. */
+  silencePaddingSec: number;
+  encoding: EncodingOptions;
+  outputFormat: OutputFormat | null;
+  /** gif / webp: preview length in seconds, from startOffsetSec. */
+  previewSec: number;
 }
 
+/** Rules used when no profile is requested (the original 9:16, 60s Shorts check). */
+export const DEFAULT_PROFILE: PlatformProfile = {
+  id: 'default',
+  name: 'Default (9:16, 60s)',
+  targetWidth: 1080,
+  targetHeight: 1920,
+  tolerance: 0.08,
+  maxDurationSec: 60,
+  minWidth: 0,
+  minHeight: 0,
+  maxFileSizeMB: null,
+  maxFps: null,
+  maxBitrateKbps: null,
+};
+
+/**
+ * Highest maxDurationSec a request may ask for with the default profile (60s is only its
+ * default); named profiles cap it at their own maxDurationSec.
+ */
+export const DEFAULT_PROFILE_MAX_DURATION_CAP_SEC = 300;
+
 export const DEFAULT_PROCESS_OPTIONS: ProcessOptions = {
+  profile: DEFAULT_PROFILE,
   mode: 'blur',
   targetWidth: 1080,
   targetHeight: 1920,
   maxDurationSec: 60,
   tolerance: 0.08,
   forceConvert: false,
+  durationStrategy: 'none',
+  startOffsetSec: 0,
+  focusX: 0.5,
+  focusY: 0.5,
+  cropX: null,
+  cropY: null,
+  maxUpscale: 2,
+  captionStyle: {
+    fontSize: 64,
+    color: '#FFFFFF',
+    outlineColor: '#000000',
+    outline: 4,
+    position: null,
+    maxLineChars: 32,
+  },
+  watermark: {
+    position: 'top-left',
+    x: null,
+    y: null,
+    margin: 32,
+    scale: 0.2,
+    opacity: 0.8,
+    startSec: null,
+    endSec: null,
+  },
+  music: {
+    track: null,
+    volume: 0.3,
+    fadeInSec: 1,
+    fadeOutSec: 2,
+    loop: true,
+    ducking: true,
+    duckRatio: 8,
+  },
+  normalizeAudio: false,
+  targetLufs: -14,
+  truePeakDb: -1,
+  removeSilence: false,
+  silenceThresholdDb: -35,
+  silenceMinSec: 0.5,
+  silencePaddingSec: 0.15,
+  encoding: {
+    crf: 23,
+    preset: 'veryfast',
+    maxBitrateKbps: null,
+    bufsizeKbps: null,
+    maxFps: null,
+    audioBitrateKbps: 128,
+    h264Profile: null,
+    h264Level: null,
+    targetSizeMB: null,
+  },
+  outputFormat: null,
+  previewSec: 6,
 };
 
-export const TARGET_ASPECT = 9 / 16;
 export const MAX_FILE_SIZE_BYTES = 200 * 1024 * 1024; // 200MB
 
+/** Upper bound on segments produced by durationStrategy=split. */
+export const MAX_SPLIT_SEGMENTS = 50;
+
 /** Default FFmpeg timeout in seconds (used when FFMPEG_TIMEOUT_SEC is not set). */
 export const FFMPEG_TIMEOUT_SEC_DEFAULT = 600;
+
+/** Default FFprobe timeout in seconds (FFPROBE_TIMEOUT_SEC). */
+export const FFPROBE_TIMEOUT_SEC_DEFAULT = 60;
+
+/** Default seconds a sourceUrl download may take, redirects included (SOURCE_URL_TIMEOUT_SEC). */
+export const SOURCE_URL_TIMEOUT_SEC_DEFAULT = 120;
+/** Default redirects followed for sourceUrl (SOURCE_URL_MAX_REDIRECTS). */
+export const SOURCE_URL_MAX_REDIRECTS_DEFAULT = 3;
+
+/** A file to send as a response body plus the headers describing it. */
+export interface OutputFile {
+  outPath: string;
+  contentType: string;
+  filename: string;
+  /** X-* headers (metadata, decision, segments). Content-* headers are set by the sender. */
+  headers: Record<string, string>;
+}
+
+/** Outcome of the Shorts pipeline: file to send plus the response headers describing it. */
+export interface ShortsResult extends OutputFile {
+  meta: VideoMetadata;
+  finalMeta: VideoMetadata;
+  validation: ShortsValidation;
+  converted: boolean;
+  /** Mode actually used (auto may fall back to blur). */
+  conversionMode: ConversionMode;
+  segments: Segment[];
+  /** removeSilence on a source with audio: what was cut (before trim / split). */
+  silence?: SilenceRemoval;
+}
+
+export type ThumbnailSelect = 'timestamp' | 'frames' | 'best' | 'grid';
+export type ImageFormat = 'jpeg' | 'png' | 'webp';
+/** Still framing: 'none' keeps the source frame; the others match the Short's conversion modes. */
+export type ThumbnailFraming = 'none' | 'pad' | 'blur' | 'crop';
+
+export interface ThumbnailOptions {
+  select: ThumbnailSelect;
+  /** select=timestamp: source time of the still. */
+  timestampSec: number;
+  /** select=frames: number of evenly spaced stills (returned as ZIP). */
+  count: number;
+  /** select=grid: contact sheet layout and tile width in px. */
+  columns: number;
+  rows: number;
+  tileWidth: number;
+  format: ImageFormat;
+  framing: ThumbnailFraming;
+}
+
+export const DEFAULT_THUMBNAIL_OPTIONS: ThumbnailOptions = {
+  select: 'best',
+  timestampSec: 0,
+  count: 6,
+  columns: 3,
+  rows: 3,
+  tileWidth: 360,
+  format: 'jpeg',
+  framing: 'none',
+};
+
+/** One entry of the /compile clip list: which upload, and which window of it. */
+export interface ClipSpec {
+  /** 0-based index into the uploaded "files", or an uploaded file's name. */
+  file: number | string;
+  /** Source in point in seconds. */
+  inSec: number;
+  /** Source out point in seconds; null = end of the clip. */
+  outSec: number | null;
+}
+
+export interface CompileOptions {
+  /** Ordered clip list; null = every upload once, in upload order, full length. */
+  clips: ClipSpec[] | null;
+  /** Crossfade between consecutive clips in seconds; 0 = hard cuts. */
+  crossfadeSec: number;
+  /** Frame rate every clip is converted to (capped by the profile's maxFps). */
+  fps: number;
+}
+
+export const DEFAULT_COMPILE_OPTIONS: CompileOptions = {
+  clips: null,
+  crossfadeSec: 0,
+  fps: 30,
+};
+
+/** Upper bound on uploads and clip list entries of one /compile request. */
+export const MAX_COMPILE_CLIPS = 10;
+
+/** Probe outcome of one /compile clip; rejected when reasons is not empty. */
+export interface ClipCheck {
+  /** Position in the clip list (0-based). */
+  index: number;
+  /** Name of the upload the clip is cut from. */
+  file: string;
+  inSec: number;
+  /** Out point after clamping to the clip's end. */
+  outSec: number;
+  durationSec: number;
+  /** Probed source properties; null when the probe failed. */
+  width: number | null;
+  height: number | null;
+  fps: number | null;
+  hasAudio: boolean | null;
+  /** PROBE_FAILED, IN_POINT_PAST_END, OUT_POINT_BEFORE_IN, TOO_SHORT. */
+  reasons: string[];
+  /** ffprobe error for PROBE_FAILED. */
+  error?: string;
+}
+
+/** Outcome of /compile: the concatenated Short plus the clips it was built from. */
+export interface CompilationResult extends OutputFile {
+  clips: ClipCheck[];
+  /** Output duration after crossfades (and trimming to maxDurationSec). */
+  durationSec: number;
+}
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+/** Progress event published per requestId (sync requests and jobs) and streamed over SSE. */
+export interface ProgressEvent extends Partial<ConversionProgress> {
+  requestId: string;
+  status: JobStatus;
+  /** 1-based segment being converted (durationStrategy=split). */
+  segment?: number;
+  segmentCount?: number;
+  /** Error code when status is failed / cancelled. */
+  error?: string;
+}
+
+/** Default number of conversions (jobs and synchronous requests) running at once (JOB_CONCURRENCY). */
+export const JOB_CONCURRENCY_DEFAULT = 2;
+/** Default max queued jobs (and, separately, synchronous requests waiting for a slot) before 503 (JOB_MAX_QUEUE). */
+export const JOB_MAX_QUEUE_DEFAULT = 100;
+/** Default seconds a finished job and its result are kept (JOB_RESULT_TTL_SEC). */
+export const JOB_RESULT_TTL_SEC_DEFAULT = 3600;
+/** Default seconds a /process/shorts output stays downloadable at /results/:id (RESULT_RETENTION_SEC; 0 disables). */
+export const RESULT_RETENTION_SEC_DEFAULT = 900;
+
+/**
+ * Default seconds running requests and jobs get to finish after SIGTERM (SHUTDOWN_GRACE_SEC);
+ * below Render's 30 s before SIGKILL.
+ */
+export const SHUTDOWN_GRACE_SEC_DEFAULT = 25;
+
+/** Default seconds an untouched resumable upload is kept, completed or not (UPLOAD_TTL_SEC). */
+export const UPLOAD_TTL_SEC_DEFAULT = 3600;
+/** Default largest chunk of a resumable upload in MB (UPLOAD_CHUNK_MAX_MB). */
+export const UPLOAD_CHUNK_MAX_MB_DEFAULT = 32;
+
+/** Default age in seconds after which a tmp dir no request / job owns is deleted (TMP_MAX_AGE_SEC). */
+export const TMP_MAX_AGE_SEC_DEFAULT = 2 * 3600;
+/** Default seconds between tmp janitor sweeps (TMP_SWEEP_INTERVAL_SEC). */
+export const TMP_SWEEP_INTERVAL_SEC_DEFAULT = 15 * 60;
+/** Default free space required to accept an upload, in multiples of MAX_FILE_SIZE_BYTES (DISK_FREE_MULTIPLE; 0 disables). */
+export const DISK_FREE_MULTIPLE_DEFAULT = 3;
+
+/** Default size cap of the result / probe cache in MB (CACHE_MAX_MB; 0 disables it). */
+export const CACHE_MAX_MB_DEFAULT = 2048;
+
+/** Default requests per minute per API key (API_RATE_LIMIT_PER_MIN). */
+export const API_RATE_LIMIT_PER_MIN_DEFAULT = 60;
+/** Default concurrent conversions per API key (API_MAX_CONCURRENT). */
+export const API_MAX_CONCURRENT_DEFAULT = 2;
+
+/** Default delivery attempts for a callbackUrl webhook (CALLBACK_MAX_ATTEMPTS). */
+export const CALLBACK_MAX_ATTEMPTS_DEFAULT = 5;
+/** Default first retry delay in seconds, doubled per attempt (CALLBACK_RETRY_BASE_SEC). */
+export const CALLBACK_RETRY_BASE_SEC_DEFAULT = 5;
+/** Default seconds to wait for the callback receiver (CALLBACK_TIMEOUT_SEC). */
+export const CALLBACK_TIMEOUT_SEC_DEFAULT = 10;
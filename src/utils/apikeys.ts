@@ -0,0 +1,283 @@
+/**
+ * API keys and their per-key limits: request rate, concurrent conversions, daily minutes of
+ * converted video and allowed modes / profiles. Keys come from API_KEYS_FILE (JSON array) and / or
+ * API_KEYS ("key" or "name:key", comma-separated, with the API_* default limits); with neither,
+ * auth is off. Usage is kept in memory (daily counters reset at 00:00 UTC and on restart).
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import {
+  API_MAX_CONCURRENT_DEFAULT,
+  API_RATE_LIMIT_PER_MIN_DEFAULT,
+  type ProcessOptions,
+  type ShortsResult,
+} from '../types';
+import { log } from './logger';
+
+export interface ApiKey {
+  /** Label used in logs, /usage and job ownership; never the secret. */
+  name: string;
+  rateLimitPerMin: number;
+  maxConcurrent: number;
+  /** Minutes of converted video per UTC day; null = unlimited. */
+  dailyMinutes: number | null;
+  /** null = all. */
+  allowedModes: string[] | null;
+  allowedProfiles: string[] | null;
+}
+
+interface KeyUsage {
+  /** Token bucket for the rate limit. */
+  tokens: number;
+  refilledAt: number;
+  activeConversions: number;
+  /** UTC day (YYYY-MM-DD) the counters below belong to. */
+  day: string;
+  secondsUsed: number;
+  requests: number;
+  conversions: number;
+}
+
+function envInt(name: string, fallback: number, min: number, max: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return fallback;
+  const n = parseInt(raw, 10);
+  if (!Number.isFinite(n) || n < min) return fallback;
+  return Math.min(n, max);
+}
+
+/** Shortest accepted secret, for API_KEYS_FILE and API_KEYS alike. */
+const MIN_KEY_LENGTH = 16;
+
+/** sha256(key) -> key; lookups hash the presented key so secrets are not compared directly. */
+let keys: Map<string, ApiKey> | null = null;
+const usage = new Map<string, KeyUsage>();
+
+function digest(secret: string): string {
+  return crypto.createHash('sha256').update(secret).digest('hex');
+}
+
+function defaultKey(name: string): ApiKey {
+  const daily = envInt('API_DAILY_MINUTES', 0, 0, 1_000_000);
+  return {
+    name,
+    rateLimitPerMin: envInt('API_RATE_LIMIT_PER_MIN', API_RATE_LIMIT_PER_MIN_DEFAULT, 1, 100_000),
+    maxConcurrent: envInt('API_MAX_CONCURRENT', API_MAX_CONCURRENT_DEFAULT, 1, 1000),
+    dailyMinutes: daily > 0 ? daily : null,
+    allowedModes: null,
+    allowedProfiles: null,
+  };
+}
+
+function stringList(value: unknown, field: string, name: string): string[] | null {
+  if (value === undefined || value === null) return null;
+  if (!Array.isArray(value) || value.some((v) => typeof v !== 'string')) {
+    throw new Error(`API_KEYS_FILE: key "${name}" has invalid ${field} (expected an array of strings)`);
+  }
+  return value.map((v: string) => v.toLowerCase());
+}
+
+/** One API_KEYS_FILE entry; missing limits use the API_* defaults. */
+function parseKeyEntry(raw: unknown, index: number): { secret: string; key: ApiKey } {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('API_KEYS_FILE: every entry must be an object');
+  }
+  const entry = raw as Record<string, unknown>;
+  const name = typeof entry.name === 'string' && entry.name !== '' ? entry.name : `key${index + 1}`;
+  if (typeof entry.key !== 'string' || entry.key.length < MIN_KEY_LENGTH) {
+    throw new Error(`API_KEYS_FILE: key "${name}" needs a "key" of at least ${MIN_KEY_LENGTH} characters`);
+  }
+  const key = defaultKey(name);
+  for (const field of ['rateLimitPerMin', 'maxConcurrent'] as const) {
+    if (entry[field] === undefined) continue;
+    const n = Number(entry[field]);
+    if (!Number.isInteger(n) || n < 1) {
+      throw new Error(`API_KEYS_FILE: key "${name}" has invalid ${field}`);
+    }
+    key[field] = n;
+  }
+  if (entry.dailyMinutes !== undefined) {
+    const n = entry.dailyMinutes === null ? null : Number(entry.dailyMinutes);
+    if (n !== null && (!Number.isFinite(n) || n <= 0)) {
+      throw new Error(`API_KEYS_FILE: key "${name}" has invalid dailyMinutes`);
+    }
+    key.dailyMinutes = n;
+  }
+  key.allowedModes = stringList(entry.allowedModes, 'allowedModes', name);
+  key.allowedProfiles = stringList(entry.allowedProfiles, 'allowedProfiles', name);
+  return { secret: entry.key, key };
+}
+
+function loadKeys(): Map<string, ApiKey> {
+  const map = new Map<string, ApiKey>();
+  const file = process.env.API_KEYS_FILE;
+  if (file) {
+    let entries: unknown;
+    try {
+      entries = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (e) {
+      throw new Error(`API_KEYS_FILE: cannot read ${file}: ${(e as Error).message}`);
+    }
+    if (!Array.isArray(entries)) {
+      throw new Error('API_KEYS_FILE: expected a JSON array of keys');
+    }
+    entries.forEach((raw, i) => {
+      const { secret, key } = parseKeyEntry(raw, i);
+      map.set(digest(secret), key);
+    });
+  }
+  for (const [i, item] of (process.env.API_KEYS ?? '').split(',').map((s) => s.trim()).filter(Boolean).entries()) {
+    const sep = item.indexOf(':');
+    const name = sep > 0 ? item.slice(0, sep) : `env${i + 1}`;
+    const secret = sep > 0 ? item.slice(sep + 1) : item;
+    if (secret.length < MIN_KEY_LENGTH) {
+      throw new Error(`API_KEYS: key "${name}" must be at least ${MIN_KEY_LENGTH} characters`);
+    }
+    map.set(digest(secret), defaultKey(name));
+  }
+  const names = new Set([...map.values()].map((k) => k.name));
+  if (names.size !== map.size) {
+    throw new Error('API keys: names must be unique');
+  }
+  log.info(map.size > 0 ? 'API keys loaded' : 'no API keys configured; authentication is off', { count: map.size });
+  return map;
+}
+
+function keyMap(): Map<string, ApiKey> {
+  if (!keys) keys = loadKeys();
+  return keys;
+}
+
+/** Load the keys (call at startup so an invalid API_KEYS_FILE fails fast); false when auth is off. */
+export function apiKeysEnabled(): boolean {
+  return keyMap().size > 0;
+}
+
+export function findApiKey(secret: string): ApiKey | undefined {
+  return keyMap().get(digest(secret));
+}
+
+function utcDay(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+/** When the daily counters reset: next 00:00 UTC (epoch ms). */
+function nextReset(now: number): number {
+  const next = new Date(now);
+  next.setUTCHours(24, 0, 0, 0);
+  return next.getTime();
+}
+
+function secondsUntilReset(now: number): number {
+  return Math.ceil((nextReset(now) - now) / 1000);
+}
+
+function usageOf(key: ApiKey, now = Date.now()): KeyUsage {
+  let u = usage.get(key.name);
+  if (!u) {
+    u = {
+      tokens: key.rateLimitPerMin,
+      refilledAt: now,
+      activeConversions: 0,
+      day: utcDay(now),
+      secondsUsed: 0,
+      requests: 0,
+      conversions: 0,
+    };
+    usage.set(key.name, u);
+  }
+  if (u.day !== utcDay(now)) {
+    u.day = utcDay(now);
+    u.secondsUsed = 0;
+    u.requests = 0;
+    u.conversions = 0;
+  }
+  const perMs = key.rateLimitPerMin / 60_000;
+  u.tokens = Math.min(key.rateLimitPerMin, u.tokens + (now - u.refilledAt) * perMs);
+  u.refilledAt = now;
+  return u;
+}
+
+/** Count a request against the rate limit. Returns 0 when allowed, else seconds until allowed. */
+export function takeRequest(key: ApiKey): number {
+  const u = usageOf(key);
+  if (u.tokens < 1) {
+    return Math.max(1, Math.ceil((1 - u.tokens) / (key.rateLimitPerMin / 60)));
+  }
+  u.tokens -= 1;
+  u.requests++;
+  return 0;
+}
+
+/**
+ * Admission for a conversion: null when a slot was taken (release it with releaseConversion),
+ * else which limit refused it and the seconds until it may clear.
+ */
+export function acquireConversion(key: ApiKey): { limit: 'concurrency' | 'quota'; retryAfterSec: number } | null {
+  const now = Date.now();
+  const u = usageOf(key, now);
+  if (key.dailyMinutes !== null && u.secondsUsed >= key.dailyMinutes * 60) {
+    return { limit: 'quota', retryAfterSec: secondsUntilReset(now) };
+  }
+  if (u.activeConversions >= key.maxConcurrent) {
+    // no way to know when a running conversion ends; a short hint
+    return { limit: 'concurrency', retryAfterSec: 10 };
+  }
+  u.activeConversions++;
+  return null;
+}
+
+export function releaseConversion(key: ApiKey): void {
+  const u = usageOf(key);
+  u.activeConversions = Math.max(0, u.activeConversions - 1);
+}
+
+/**
+ * Charge a finished result against the daily quota: minutes of converted output. Passthrough,
+ * remux-only and cache hits did no encoding and are free.
+ */
+export function chargeResult(key: ApiKey | undefined, result: ShortsResult): void {
+  if (!result.converted || result.headers['X-Cache'] === 'HIT') return;
+  chargeSeconds(key, result.finalMeta.durationSec);
+}
+
+/** Count one conversion of seconds of output video against the key's daily minutes. */
+export function chargeSeconds(key: ApiKey | undefined, seconds: number): void {
+  if (!key) return;
+  const u = usageOf(key);
+  u.secondsUsed += seconds;
+  u.conversions++;
+}
+
+/** Throws OPTION_NOT_ALLOWED when the key may not use the requested mode or profile. */
+export function assertOptionsAllowed(key: ApiKey | undefined, options: ProcessOptions): void {
+  if (!key) return;
+  if (key.allowedModes && !key.allowedModes.includes(options.mode)) {
+    throw new Error(`OPTION_NOT_ALLOWED: mode "${options.mode}" is not allowed for this API key (allowed: ${key.allowedModes.join(', ')})`);
+  }
+  if (key.allowedProfiles && !key.allowedProfiles.includes(options.profile.id)) {
+    throw new Error(`OPTION_NOT_ALLOWED: profile "${options.profile.id}" is not allowed for this API key (allowed: ${key.allowedProfiles.join(', ')})`);
+  }
+}
+
+/** GET /usage view for a key. */
+export function usageView(key: ApiKey): Record<string, unknown> {
+  const now = Date.now();
+  const u = usageOf(key, now);
+  const usedMinutes = Math.round((u.secondsUsed / 60) * 100) / 100;
+  return {
+    key: key.name,
+    rateLimit: { limitPerMin: key.rateLimitPerMin, remaining: Math.floor(u.tokens) },
+    concurrency: { max: key.maxConcurrent, active: u.activeConversions },
+    dailyMinutes: {
+      limit: key.dailyMinutes,
+      used: usedMinutes,
+      remaining: key.dailyMinutes === null ? null : Math.max(0, Math.round((key.dailyMinutes - usedMinutes) * 100) / 100),
+      resetsAt: new Date(nextReset(now)).toISOString(),
+    },
+    today: { requests: u.requests, conversions: u.conversions },
+    allowedModes: key.allowedModes,
+    allowedProfiles: key.allowedProfiles,
+  };
+}
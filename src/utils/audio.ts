@@ -0,0 +1,75 @@
+/**
+ * Audio loudness (EBU R128) via the ffmpeg loudnorm filter: first-pass measurement for
+ * normalizeAudio and /inspect, and parsing of the JSON block loudnorm prints to stderr.
+ */
+
+import * as path from 'path';
+import type { LoudnessMeasurement, ProcessOptions, Segment } from '../types';
+import { buildLoudnormFilter, runFfmpeg } from './ffmpeg';
+
+/** Below the EBU R128 absolute gate: nothing to measure or normalize. */
+const SILENCE_LUFS = -70;
+
+/** loudnorm reports "-inf" / "inf" for silence; keep those as infinities. */
+function level(value: unknown): number {
+  const raw = String(value ?? '').trim();
+  const n = Number(raw);
+  if (Number.isFinite(n)) return n;
+  return raw.startsWith('-') ? -Infinity : Infinity;
+}
+
+/**
+ * Parse the last loudnorm JSON block in ffmpeg stderr.
+ * which: 'input' for the measured source levels, 'output' for the normalized result.
+ */
+export function parseLoudnorm(stderr: string, which: 'input' | 'output'): LoudnessMeasurement {
+  const start = stderr.lastIndexOf('{');
+  const end = stderr.lastIndexOf('}');
+  if (start < 0 || end < start) {
+    throw new Error('ffmpeg loudnorm reported no measurement');
+  }
+  let stats: Record<string, unknown>;
+  try {
+    stats = JSON.parse(stderr.slice(start, end + 1)) as Record<string, unknown>;
+  } catch {
+    throw new Error('ffmpeg loudnorm measurement is not valid JSON');
+  }
+  const integratedLufs = level(stats[`${which}_i`]);
+  return {
+    integratedLufs,
+    truePeakDb: level(stats[`${which}_tp`]),
+    loudnessRangeLu: level(stats[`${which}_lra`]),
+    thresholdLufs: level(stats[`${which}_thresh`]),
+    targetOffsetLu: level(stats.target_offset),
+    silent: !(integratedLufs > SILENCE_LUFS),
+  };
+}
+
+/**
+ * First loudnorm pass over the first audio stream (optionally only a segment).
+ * Caller must check meta.hasAudio; targets come from options.targetLufs / truePeakDb.
+ */
+export async function measureLoudness(
+  inputPath: string,
+  options: ProcessOptions,
+  segment?: Segment,
+  signal?: AbortSignal,
+): Promise<LoudnessMeasurement> {
+  const args = ['-hide_banner', '-nostats'];
+  if (segment) args.push('-ss', String(segment.startSec));
+  args.push('-i', path.resolve(inputPath));
+  if (segment) args.push('-t', String(segment.durationSec));
+  args.push(
+    '-map', '0:a:0',
+    '-af', buildLoudnormFilter(options),
+    '-f', 'null', '-',
+  );
+  const stderr = await runFfmpeg(args, { signal });
+  return parseLoudnorm(stderr, 'input');
+}
+
+/** Header / JSON form of a level: 2 decimals, '-inf' for silence. */
+export function formatLevel(value: number): string {
+  if (!Number.isFinite(value)) return value < 0 ? '-inf' : 'inf';
+  return String(Math.round(value * 100) / 100);
+}
@@ -0,0 +1,254 @@
+/**
+ * Auto reframe (mode=auto): CPU-only motion analysis of sampled frames via ffmpeg frame differencing.
+ * Produces a smoothed crop-window path; low confidence falls back to blur.
+ */
+
+import * as path from 'path';
+import type { AutoFrameKeyframe, AutoFramePath, ProcessOptions, VideoMetadata } from '../types';
+import { computeCropWindow } from './crop';
+import { runFfmpeg } from './ffmpeg';
+
+/** Frames analyzed per second of video. */
+const SAMPLE_FPS = 4;
+/** Analysis frames are downscaled to this width (grayscale). */
+const ANALYSIS_WIDTH = 128;
+/** Per-pixel gray-level difference treated as sensor / compression noise. */
+const NOISE_FLOOR = 12;
+/** A sample counts as trackable when this share of pixels moved... */
+const MIN_ACTIVE_RATIO = 0.002;
+/** ...but not more (whole-frame change = camera move or cut, nothing localized). */
+const MAX_ACTIVE_RATIO = 0.6;
+/** Share of trackable samples required to use the path instead of falling back to blur. */
+const MIN_CONFIDENCE = 0.3;
+/** Centered moving-average window for the motion centroid. */
+const SMOOTH_WINDOW_SEC = 1.5;
+/** Max pan speed, as a fraction of the source dimension per second. */
+const MAX_PAN_PER_SEC = 0.25;
+/** Keyframes are taken at this interval before simplification. */
+const KEYFRAME_STEP_SEC = 0.5;
+/** Keyframes within this many source pixels of the interpolated path are dropped. */
+const SIMPLIFY_TOLERANCE_PX = 4;
+/** Upper bound on keyframes (keeps the ffmpeg crop expression small). */
+const MAX_KEYFRAMES = 240;
+
+interface MotionSample {
+  timeSec: number;
+  /** Motion centroid as a fraction of width / height; NaN when not trackable. */
+  cx: number;
+  cy: number;
+}
+
+function even(n: number): number {
+  return Math.max(2, Math.round(n / 2) * 2);
+}
+
+function clamp(n: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, n));
+}
+
+/**
+ * Decode sampled grayscale frames and compute the motion centroid between consecutive frames.
+ */
+async function sampleMotion(
+  inputPath: string,
+  meta: VideoMetadata,
+  signal?: AbortSignal,
+): Promise<MotionSample[]> {
+  const aw = ANALYSIS_WIDTH;
+  const ah = even((ANALYSIS_WIDTH * meta.height) / meta.width);
+  const frameSize = aw * ah;
+  const samples: MotionSample[] = [];
+  const colEnergy = new Float64Array(aw);
+  const rowEnergy = new Float64Array(ah);
+
+  let prev: Buffer | null = null;
+  let pending: Buffer = Buffer.alloc(0);
+  let frameIndex = 0;
+
+  const onFrame = (frame: Buffer): void => {
+    if (prev) {
+      colEnergy.fill(0);
+      rowEnergy.fill(0);
+      let active = 0;
+      let total = 0;
+      for (let y = 0; y < ah; y++) {
+        const row = y * aw;
+        for (let x = 0; x < aw; x++) {
+          const d = Math.abs(frame[row + x] - prev[row + x]);
+          if (d <= NOISE_FLOOR) continue;
+          active++;
+          total += d;
+          colEnergy[x] += d;
+          rowEnergy[y] += d;
+        }
+      }
+      const ratio = active / frameSize;
+      let cx = NaN;
+      let cy = NaN;
+      if (ratio >= MIN_ACTIVE_RATIO && ratio <= MAX_ACTIVE_RATIO && total > 0) {
+        let sx = 0;
+        let sy = 0;
+        for (let x = 0; x < aw; x++) sx += colEnergy[x] * (x + 0.5);
+        for (let y = 0; y < ah; y++) sy += rowEnergy[y] * (y + 0.5);
+        cx = sx / total / aw;
+        cy = sy / total / ah;
+      }
+      samples.push({ timeSec: frameIndex / SAMPLE_FPS, cx, cy });
+    }
+    prev = frame;
+    frameIndex++;
+  };
+
+  await runFfmpeg(
+    [
+      '-v', 'error',
+      '-i', path.resolve(inputPath),
+      '-an',
+      '-vf', `fps=${SAMPLE_FPS},scale=${aw}:${ah},format=gray`,
+      '-f', 'rawvideo',
+      'pipe:1',
+    ],
+    {
+      signal,
+      onStdout: (chunk) => {
+        pending = pending.length ? Buffer.concat([pending, chunk]) : chunk;
+        while (pending.length >= frameSize) {
+          onFrame(Buffer.from(pending.subarray(0, frameSize)));
+          pending = pending.subarray(frameSize);
+        }
+      },
+    },
+  );
+  return samples;
+}
+
+/**
+ * Fill untrackable samples (hold last value), smooth with a moving average, then limit pan speed.
+ */
+function smoothAxis(values: number[]): number[] {
+  const firstValid = values.find((v) => !Number.isNaN(v)) ?? 0.5;
+  const filled: number[] = [];
+  let last = firstValid;
+  for (const v of values) {
+    if (!Number.isNaN(v)) last = v;
+    filled.push(last);
+  }
+
+  const half = Math.max(1, Math.round((SMOOTH_WINDOW_SEC * SAMPLE_FPS) / 2));
+  const averaged = filled.map((_, i) => {
+    let sum = 0;
+    let n = 0;
+    for (let j = Math.max(0, i - half); j <= Math.min(filled.length - 1, i + half); j++) {
+      sum += filled[j];
+      n++;
+    }
+    return sum / n;
+  });
+
+  const maxStep = MAX_PAN_PER_SEC / SAMPLE_FPS;
+  for (let i = 1; i < averaged.length; i++) {
+    averaged[i] = clamp(averaged[i], averaged[i - 1] - maxStep, averaged[i - 1] + maxStep);
+  }
+  return averaged;
+}
+
+/**
+ * Ramer–Douglas–Peucker on (time, x, y): keep keyframes that deviate from the straight-line path.
+ */
+function simplify(points: AutoFrameKeyframe[], tolerancePx: number): AutoFrameKeyframe[] {
+  if (points.length <= 2) return points;
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = true;
+  keep[points.length - 1] = true;
+  const stack: Array<[number, number]> = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [a, b] = stack.pop() as [number, number];
+    const pa = points[a];
+    const pb = points[b];
+    let worst = -1;
+    let worstErr = tolerancePx;
+    for (let i = a + 1; i < b; i++) {
+      const f = (points[i].timeSec - pa.timeSec) / (pb.timeSec - pa.timeSec);
+      const err = Math.max(
+        Math.abs(points[i].x - (pa.x + (pb.x - pa.x) * f)),
+        Math.abs(points[i].y - (pa.y + (pb.y - pa.y) * f)),
+      );
+      if (err > worstErr) {
+        worst = i;
+        worstErr = err;
+      }
+    }
+    if (worst >= 0) {
+      keep[worst] = true;
+      stack.push([a, worst], [worst, b]);
+    }
+  }
+  return points.filter((_, i) => keep[i]);
+}
+
+/**
+ * Analyze the whole source and return the crop path for mode=auto.
+ * Never throws for "no subject": returns fallback=true with a reason instead.
+ */
+export async function analyzeAutoFrame(
+  inputPath: string,
+  meta: VideoMetadata,
+  options: ProcessOptions,
+  signal?: AbortSignal,
+): Promise<AutoFramePath> {
+  let window;
+  try {
+    window = computeCropWindow(meta, { ...options, focusX: 0.5, focusY: 0.5, cropX: null, cropY: null });
+  } catch (e) {
+    const msg = (e as Error).message;
+    if (!msg.startsWith('CROP_UPSCALE_EXCEEDED')) throw e;
+    return {
+      width: 0,
+      height: 0,
+      upscale: 0,
+      confidence: 0,
+      fallback: true,
+      fallbackReason: msg.replace(/^CROP_UPSCALE_EXCEEDED:\s*/, ''),
+      keyframes: [],
+    };
+  }
+  const { width, height, upscale } = window;
+  const base = { width, height, upscale };
+
+  const samples = await sampleMotion(inputPath, meta, signal);
+  if (samples.length === 0) {
+    return { ...base, confidence: 0, fallback: true, fallbackReason: 'no frames decoded', keyframes: [] };
+  }
+
+  const trackable = samples.filter((s) => !Number.isNaN(s.cx)).length;
+  const confidence = Math.round((trackable / samples.length) * 1000) / 1000;
+  if (confidence < MIN_CONFIDENCE) {
+    return {
+      ...base,
+      confidence,
+      fallback: true,
+      fallbackReason: `low motion confidence (${confidence} < ${MIN_CONFIDENCE})`,
+      keyframes: [],
+    };
+  }
+
+  const xs = smoothAxis(samples.map((s) => s.cx));
+  const ys = smoothAxis(samples.map((s) => s.cy));
+  const step = Math.max(1, Math.round(KEYFRAME_STEP_SEC * SAMPLE_FPS));
+  const points: AutoFrameKeyframe[] = [];
+  for (let i = 0; i < samples.length; i += step) {
+    points.push({
+      timeSec: samples[i].timeSec,
+      x: clamp(Math.round(xs[i] * meta.width - width / 2), 0, meta.width - width),
+      y: clamp(Math.round(ys[i] * meta.height - height / 2), 0, meta.height - height),
+    });
+  }
+
+  let keyframes = simplify(points, SIMPLIFY_TOLERANCE_PX);
+  if (keyframes.length > MAX_KEYFRAMES) {
+    const stride = keyframes.length / MAX_KEYFRAMES;
+    keyframes = Array.from({ length: MAX_KEYFRAMES }, (_, i) => keyframes[Math.floor(i * stride)]);
+  }
+
+  return { ...base, confidence, fallback: false, keyframes };
+}
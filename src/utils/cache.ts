@@ -0,0 +1,339 @@
+/**
+ * Content-addressed on-disk cache: Shorts results keyed by the SHA-256 of the uploads plus the
+ * normalized options, and probe results (metadata, loudness) keyed by the file's SHA-256.
+ * LRU eviction above CACHE_MAX_MB; entries are verified (size + hash) by initCache at startup.
+ * Env: CACHE_DIR, CACHE_MAX_MB (0 disables the cache).
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  CACHE_MAX_MB_DEFAULT,
+  type LoudnessMeasurement,
+  type ProcessOptions,
+  type ShortsResult,
+  type VideoMetadata,
+} from '../types';
+import { log } from './logger';
+import type { PipelineInput } from './pipeline';
+import { rmDirRecursive, sanitizeFilename, TMP_DIR } from './tmp';
+
+/** Bump when the manifest layout or the meaning of cached outputs changes. */
+const CACHE_VERSION = 1;
+const MANIFEST = 'manifest.json';
+
+/** Cached probe of one source file; loudness only once /inspect measured it. */
+export interface ProbeEntry {
+  meta: VideoMetadata;
+  loudness?: LoudnessMeasurement;
+}
+
+/** How the result filename is rebuilt for the next upload's name: <prefix><base><ext>. */
+export interface CachedFilename {
+  prefix: string;
+  ext: string;
+}
+
+interface ResultManifest extends CachedFilename {
+  version: number;
+  output: string;
+  sizeBytes: number;
+  sha256: string;
+  result: Omit<ShortsResult, 'outPath' | 'filename'>;
+}
+
+interface IndexEntry {
+  /** results/<key> dir or probes/<hash>.json file. */
+  path: string;
+  bytes: number;
+}
+
+function envInt(name: string, fallback: number, min: number, max: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return fallback;
+  const n = parseInt(raw, 10);
+  if (!Number.isFinite(n) || n < min) return fallback;
+  return Math.min(n, max);
+}
+
+const cacheDir = process.env.CACHE_DIR || path.join(TMP_DIR, 'cache');
+const maxBytes = envInt('CACHE_MAX_MB', CACHE_MAX_MB_DEFAULT, 0, 1024 * 1024) * 1024 * 1024;
+const resultsDir = path.join(cacheDir, 'results');
+const probesDir = path.join(cacheDir, 'probes');
+
+/** Map order is LRU order: oldest first; a hit moves the entry to the end. */
+const index = new Map<string, IndexEntry>();
+let totalBytes = 0;
+/** Lookups miss until initCache has verified what is on disk. */
+let ready = false;
+
+/** JSON with loudness infinities (silence) kept as strings. */
+function toJson(value: unknown): string {
+  return JSON.stringify(value, (_k, v: unknown) =>
+    typeof v === 'number' && !Number.isFinite(v) ? (v > 0 ? 'inf' : '-inf') : v);
+}
+
+function fromJson<T>(text: string): T {
+  return JSON.parse(text, (_k, v: unknown) => (v === '-inf' ? -Infinity : v === 'inf' ? Infinity : v)) as T;
+}
+
+/** JSON with sorted object keys, so equal options always give the same key. */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const obj = value as Record<string, unknown>;
+    return `{${Object.keys(obj)
+      .filter((k) => obj[k] !== undefined)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${stableStringify(obj[k])}`)
+      .join(',')}}`;
+  }
+  return toJson(value);
+}
+
+async function hashFile(filePath: string): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  for await (const chunk of fs.createReadStream(filePath)) hash.update(chunk as Buffer);
+  return hash.digest('hex');
+}
+
+function dirBytes(dir: string): number {
+  return fs.readdirSync(dir).reduce((sum, name) => sum + fs.statSync(path.join(dir, name)).size, 0);
+}
+
+function removePath(p: string): void {
+  try {
+    if (fs.statSync(p).isDirectory()) rmDirRecursive(p);
+    else fs.unlinkSync(p);
+  } catch {
+    /* already gone */
+  }
+}
+
+function forget(id: string): void {
+  const entry = index.get(id);
+  if (!entry) return;
+  index.delete(id);
+  totalBytes -= entry.bytes;
+  removePath(entry.path);
+}
+
+/** Add (or replace: the caller already rewrote the files) an entry, then evict LRU entries above the cap. */
+function remember(id: string, entry: IndexEntry): void {
+  const previous = index.get(id);
+  if (previous) {
+    index.delete(id);
+    totalBytes -= previous.bytes;
+  }
+  index.set(id, entry);
+  totalBytes += entry.bytes;
+  for (const oldest of index.keys()) {
+    if (totalBytes <= maxBytes || oldest === id) break;
+    forget(oldest);
+  }
+}
+
+/** Mark an entry as just used (in memory and via mtime, which orders the LRU after a restart). */
+function touch(id: string, mtimePath: string): void {
+  const entry = index.get(id);
+  if (!entry) return;
+  index.delete(id);
+  index.set(id, entry);
+  const now = new Date();
+  fs.utimes(mtimePath, now, now, () => undefined);
+}
+
+export function cacheEnabled(): boolean {
+  return maxBytes > 0;
+}
+
+/** Cache dir and what the index holds (for /metrics). */
+export function cacheStats(): { dir: string; entries: number; bytes: number } {
+  return { dir: cacheDir, entries: index.size, bytes: totalBytes };
+}
+
+/**
+ * Result key: SHA-256 over the source / captions / watermark / music (upload or library track)
+ * hashes, the source extension (it decides passthrough remuxing) and the normalized options.
+ * Undefined when the cache is off or an upload was not hashed.
+ */
+export function resultCacheKey(input: PipelineInput, options: ProcessOptions): string | undefined {
+  if (!cacheEnabled() || !input.sourceSha256) return undefined;
+  if (input.captionsPath && !input.captionsSha256) return undefined;
+  if (input.watermarkPath && !input.watermarkSha256) return undefined;
+  if (input.musicPath && !input.musicSha256) return undefined;
+  return crypto.createHash('sha256').update(stableStringify({
+    version: CACHE_VERSION,
+    source: input.sourceSha256,
+    sourceExt: path.extname(input.originalName).toLowerCase(),
+    captions: input.captionsSha256 ?? null,
+    watermark: input.watermarkSha256 ?? null,
+    music: input.musicSha256 ?? null,
+    options,
+  })).digest('hex');
+}
+
+/**
+ * Cached result for key, hard-linked (or copied) into tmpDir so it shares the request's
+ * cleanup and survives eviction; filename rebuilt from originalName. Null on a miss.
+ */
+export function getCachedResult(key: string, tmpDir: string, originalName: string): ShortsResult | null {
+  const id = `result:${key}`;
+  const entry = ready ? index.get(id) : undefined;
+  if (!entry) return null;
+  try {
+    const manifestPath = path.join(entry.path, MANIFEST);
+    const manifest = fromJson<ResultManifest>(fs.readFileSync(manifestPath, 'utf8'));
+    const outPath = path.join(tmpDir, manifest.output);
+    try {
+      fs.linkSync(path.join(entry.path, manifest.output), outPath);
+    } catch {
+      fs.copyFileSync(path.join(entry.path, manifest.output), outPath);
+    }
+    touch(id, manifestPath);
+    const ext = path.extname(originalName) || '.mp4';
+    const base = path.basename(originalName, ext) || 'video';
+    return {
+      ...manifest.result,
+      outPath,
+      filename: `${manifest.prefix}${sanitizeFilename(base)}${manifest.ext}`,
+    };
+  } catch (e) {
+    log.warn('cache: dropping unreadable result', { key, error: e });
+    forget(id);
+    return null;
+  }
+}
+
+/**
+ * Store a result under key (output hard-linked, not copied, when possible). Failures are logged,
+ * never thrown: the cache must not fail a request that already succeeded.
+ */
+export async function putCachedResult(key: string, result: ShortsResult, filename: CachedFilename): Promise<void> {
+  if (!ready || !cacheEnabled()) return;
+  const staging = path.join(resultsDir, `.tmp-${uuidv4()}`);
+  try {
+    const { outPath, filename: _name, ...rest } = result;
+    const sizeBytes = fs.statSync(outPath).size;
+    if (sizeBytes > maxBytes) return;
+    const output = path.basename(outPath);
+    const manifest: ResultManifest = {
+      version: CACHE_VERSION,
+      output,
+      sizeBytes,
+      sha256: await hashFile(outPath),
+      ...filename,
+      result: rest,
+    };
+    fs.mkdirSync(staging, { recursive: true });
+    try {
+      fs.linkSync(outPath, path.join(staging, output));
+    } catch {
+      fs.copyFileSync(outPath, path.join(staging, output));
+    }
+    fs.writeFileSync(path.join(staging, MANIFEST), toJson(manifest));
+    const dir = path.join(resultsDir, key);
+    removePath(dir);
+    fs.renameSync(staging, dir);
+    remember(`result:${key}`, { path: dir, bytes: dirBytes(dir) });
+  } catch (e) {
+    log.error('cache: cannot store result', { key, error: e });
+    removePath(staging);
+  }
+}
+
+/** Cached probe for a file hash, or undefined. */
+export function getCachedProbe(sha256: string | undefined): ProbeEntry | undefined {
+  if (!sha256 || !ready) return undefined;
+  const id = `probe:${sha256}`;
+  const entry = index.get(id);
+  if (!entry) return undefined;
+  try {
+    const probe = fromJson<ProbeEntry & { version: number }>(fs.readFileSync(entry.path, 'utf8'));
+    touch(id, entry.path);
+    return { meta: probe.meta, loudness: probe.loudness };
+  } catch {
+    forget(id);
+    return undefined;
+  }
+}
+
+export function putCachedProbe(sha256: string | undefined, probe: ProbeEntry): void {
+  if (!sha256 || !ready || !cacheEnabled()) return;
+  const file = path.join(probesDir, `${sha256}.json`);
+  try {
+    fs.writeFileSync(file, toJson({ version: CACHE_VERSION, ...probe }));
+    remember(`probe:${sha256}`, { path: file, bytes: fs.statSync(file).size });
+  } catch (e) {
+    log.error('cache: cannot store probe', { sha256, error: e });
+  }
+}
+
+/** Verify one results/<key> dir: manifest version, output present, size and hash match. */
+async function verifyResultDir(dir: string): Promise<boolean> {
+  try {
+    const manifest = fromJson<ResultManifest>(fs.readFileSync(path.join(dir, MANIFEST), 'utf8'));
+    if (manifest.version !== CACHE_VERSION || path.basename(manifest.output) !== manifest.output) return false;
+    const output = path.join(dir, manifest.output);
+    if (fs.statSync(output).size !== manifest.sizeBytes) return false;
+    return (await hashFile(output)) === manifest.sha256;
+  } catch {
+    return false;
+  }
+}
+
+function verifyProbeFile(file: string): boolean {
+  try {
+    const probe = fromJson<ProbeEntry & { version: number }>(fs.readFileSync(file, 'utf8'));
+    return probe.version === CACHE_VERSION && typeof probe.meta?.width === 'number';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Startup integrity check: drop staging leftovers and entries that fail verification, rebuild
+ * the LRU index from mtimes and evict down to the cap. Lookups miss until this resolves.
+ */
+export async function initCache(): Promise<void> {
+  if (!cacheEnabled()) return;
+  fs.mkdirSync(resultsDir, { recursive: true });
+  fs.mkdirSync(probesDir, { recursive: true });
+  const found: { id: string; entry: IndexEntry; mtimeMs: number }[] = [];
+  let removed = 0;
+
+  for (const name of fs.readdirSync(resultsDir)) {
+    const dir = path.join(resultsDir, name);
+    if (!/^[0-9a-f]{64}$/.test(name) || !(await verifyResultDir(dir))) {
+      removePath(dir);
+      removed++;
+      continue;
+    }
+    const mtimeMs = fs.statSync(path.join(dir, MANIFEST)).mtimeMs;
+    found.push({ id: `result:${name}`, entry: { path: dir, bytes: dirBytes(dir) }, mtimeMs });
+  }
+  for (const name of fs.readdirSync(probesDir)) {
+    const file = path.join(probesDir, name);
+    const match = /^([0-9a-f]{64})\.json$/.exec(name);
+    if (!match || !verifyProbeFile(file)) {
+      removePath(file);
+      removed++;
+      continue;
+    }
+    const stat = fs.statSync(file);
+    found.push({ id: `probe:${match[1]}`, entry: { path: file, bytes: stat.size }, mtimeMs: stat.mtimeMs });
+  }
+
+  found.sort((a, b) => a.mtimeMs - b.mtimeMs);
+  for (const { id, entry } of found) remember(id, entry);
+  ready = true;
+  log.info('cache ready', {
+    dir: cacheDir,
+    entries: index.size,
+    sizeMB: Math.round(totalBytes / 1024 / 1024),
+    maxMB: maxBytes / 1024 / 1024,
+    removedInvalid: removed,
+  });
+}
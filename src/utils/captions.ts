@@ -0,0 +1,195 @@
+/**
+ * Burn-in captions: parse SRT / WebVTT, lay them out in the Shorts safe area, write ASS for ffmpeg's subtitles filter.
+ */
+
+import * as fs from 'fs';
+import type { CaptionStyle, ConversionMode, ProcessOptions, VideoMetadata } from '../types';
+
+/** Shorts UI covers roughly the top 12% and bottom 22% of the frame; keep caption blocks between. */
+const SAFE_TOP = 0.12;
+const SAFE_BOTTOM = 0.78;
+/** Side margins (right edge has the action buttons). */
+const SAFE_SIDE = 0.08;
+/** Default block center when there is no free band under the picture. */
+const DEFAULT_POSITION = 0.7;
+/** Gap between the picture and captions placed below it, as a fraction of output height. */
+const BELOW_PICTURE_GAP = 0.03;
+const LINE_HEIGHT = 1.2;
+const FONT_NAME = 'DejaVu Sans';
+
+export interface Cue {
+  startSec: number;
+  endSec: number;
+  /** Plain text; lines separated by \n. */
+  text: string;
+}
+
+/** Output frame size and the rows actually covered by the picture (pad / blur leave bands above and below). */
+export interface CaptionLayout {
+  width: number;
+  height: number;
+  contentTop: number;
+  contentBottom: number;
+}
+
+function parseTimestamp(raw: string): number {
+  // SRT: 00:01:02,345  VTT: 00:01:02.345 or 01:02.345
+  const m = /^(?:(\d+):)?(\d{1,2}):(\d{1,2})[.,](\d{1,3})$/.exec(raw.trim());
+  if (!m) return NaN;
+  const [, h, min, sec, frac] = m;
+  return Number(h ?? 0) * 3600 + Number(min) * 60 + Number(sec) + Number(frac.padEnd(3, '0')) / 1000;
+}
+
+/**
+ * Parse SRT or WebVTT content. Markup (<i>, <c.x>, {\an8}) is stripped.
+ * Throws INVALID_CAPTIONS when no cue can be read.
+ */
+export function parseCaptions(content: string): Cue[] {
+  const text = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const blocks = text.split(/\n{2,}/);
+  const cues: Cue[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const timingIdx = lines.findIndex((l) => l.includes('-->'));
+    if (timingIdx < 0) continue; // WEBVTT header, NOTE, STYLE, stray text
+    const [startRaw, rest] = lines[timingIdx].split('-->');
+    const endRaw = rest.trim().split(/\s+/)[0] ?? '';
+    const startSec = parseTimestamp(startRaw);
+    const endSec = parseTimestamp(endRaw);
+    if (!Number.isFinite(startSec) || !Number.isFinite(endSec) || endSec <= startSec) continue;
+    const body = lines
+      .slice(timingIdx + 1)
+      .map((l) => l.replace(/<[^>]*>/g, '').replace(/\{[^}]*\}/g, '').trim())
+      .filter((l) => l.length > 0)
+      .join('\n');
+    if (body) cues.push({ startSec, endSec, text: body });
+  }
+
+  if (cues.length === 0) {
+    throw new Error('INVALID_CAPTIONS: no cues found (expected SRT or WebVTT)');
+  }
+  return cues.sort((a, b) => a.startSec - b.startSec);
+}
+
+/**
+ * Where the picture sits in the output frame for a given mode (crop / auto fill the frame).
+ */
+export function captionLayout(meta: VideoMetadata, options: ProcessOptions, mode: ConversionMode): CaptionLayout {
+  const { targetWidth: width, targetHeight: height } = options;
+  if (mode === 'crop' || mode === 'auto' || meta.width <= 0) {
+    return { width, height, contentTop: 0, contentBottom: height };
+  }
+  const contentHeight = Math.min(height, Math.round((width * meta.height) / meta.width));
+  const contentTop = Math.round((height - contentHeight) / 2);
+  return { width, height, contentTop, contentBottom: contentTop + contentHeight };
+}
+
+function wrap(text: string, maxChars: number): string[] {
+  const out: string[] = [];
+  for (const para of text.split('\n')) {
+    let line = '';
+    for (const word of para.split(/\s+/).filter(Boolean)) {
+      if (line && line.length + 1 + word.length > maxChars) {
+        out.push(line);
+        line = word;
+      } else {
+        line = line ? `${line} ${word}` : word;
+      }
+    }
+    if (line) out.push(line);
+  }
+  return out;
+}
+
+/** ASS has no escape for override braces or backslash sequences; neutralize them. */
+function assText(line: string): string {
+  return line.replace(/\\/g, '/').replace(/\{/g, '(').replace(/\}/g, ')');
+}
+
+/** #RRGGBB -> &H00BBGGRR */
+function assColor(hex: string): string {
+  const rr = hex.slice(1, 3);
+  const gg = hex.slice(3, 5);
+  const bb = hex.slice(5, 7);
+  return `&H00${bb}${gg}${rr}`;
+}
+
+function assTime(sec: number): string {
+  const cs = Math.max(0, Math.round(sec * 100));
+  const h = Math.floor(cs / 360000);
+  const m = Math.floor((cs % 360000) / 6000);
+  const s = Math.floor((cs % 6000) / 100);
+  const c = cs % 100;
+  return `${h}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}.${String(c).padStart(2, '0')}`;
+}
+
+/**
+ * Vertical center (px) for a block of `lines` lines: explicit position, else just below the picture
+ * when that band is free, else DEFAULT_POSITION; always clamped into the safe area.
+ */
+function blockCenterY(lines: number, style: CaptionStyle, layout: CaptionLayout): number {
+  const blockHeight = lines * style.fontSize * LINE_HEIGHT + 2 * style.outline;
+  const minY = layout.height * SAFE_TOP + blockHeight / 2;
+  const maxY = layout.height * SAFE_BOTTOM - blockHeight / 2;
+  let y: number;
+  if (style.position !== null) {
+    y = style.position * layout.height;
+  } else {
+    const belowPicture = layout.contentBottom + BELOW_PICTURE_GAP * layout.height + blockHeight / 2;
+    y = belowPicture <= maxY ? belowPicture : DEFAULT_POSITION * layout.height;
+  }
+  return Math.round(Math.max(minY, Math.min(maxY, y)));
+}
+
+/**
+ * Write an ASS file for the cues overlapping [offsetSec, offsetSec + durationSec), shifted so offsetSec is t=0.
+ * Returns the number of cues written.
+ */
+export function writeAssSubtitles(
+  cues: Cue[],
+  style: CaptionStyle,
+  layout: CaptionLayout,
+  outPath: string,
+  offsetSec = 0,
+  durationSec = Infinity,
+): number {
+  const side = Math.round(layout.width * SAFE_SIDE);
+  const x = Math.round(layout.width / 2);
+  const endSec = offsetSec + durationSec;
+
+  const events: string[] = [];
+  for (const cue of cues) {
+    if (cue.endSec <= offsetSec || cue.startSec >= endSec) continue;
+    const lines = wrap(cue.text, style.maxLineChars);
+    if (lines.length === 0) continue;
+    const y = blockCenterY(lines.length, style, layout);
+    const start = assTime(Math.max(0, cue.startSec - offsetSec));
+    const end = assTime(Math.min(endSec, cue.endSec) - offsetSec);
+    events.push(`Dialogue: 0,${start},${end},Default,,0,0,0,,{\\an5\\pos(${x},${y})}${lines.map(assText).join('\\N')}`);
+  }
+
+  const ass = [
+    '[Script Info]',
+    'ScriptType: v4.00+',
+    `PlayResX: ${layout.width}`,
+    `PlayResY: ${layout.height}`,
+    'WrapStyle: 2',
+    'ScaledBorderAndShadow: yes',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, ' +
+      'Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, ' +
+      'MarginL, MarginR, MarginV, Encoding',
+    `Style: Default,${FONT_NAME},${style.fontSize},${assColor(style.color)},&H000000FF,` +
+      `${assColor(style.outlineColor)},&H80000000,-1,0,0,0,100,100,0,0,1,${style.outline},0,5,${side},${side},0,1`,
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+    ...events,
+    '',
+  ].join('\n');
+
+  fs.writeFileSync(outPath, ass, 'utf8');
+  return events.length;
+}
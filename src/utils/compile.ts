@@ -0,0 +1,340 @@
+/**
+ * Multi-clip compilation for POST /compile: probe every clip, cut its in / out window, reframe it
+ * (pad / blur) to the target size at a common fps with 48 kHz stereo audio, and join the clips
+ * (hard cuts or crossfades) into one Short within maxDurationSec. One ffmpeg run, no intermediates.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  type ClipCheck,
+  type ClipSpec,
+  type CompilationResult,
+  type CompileOptions,
+  type ConversionProgress,
+  DEFAULT_PROCESS_OPTIONS,
+  type ProcessOptions,
+  type VideoMetadata,
+} from '../types';
+import { getCachedProbe, putCachedProbe } from './cache';
+import {
+  buildReframeFilter,
+  buildVideoEncoderArgs,
+  createProgressParser,
+  runFfmpeg,
+  toConversionProgress,
+} from './ffmpeg';
+import { getVideoMetadata } from './ffprobe';
+import { OUTPUT_FORMATS } from './formats';
+import { observeConversion, trackConversion } from './metrics';
+import { outputPath } from './tmp';
+
+/** Shortest clip window worth a cut. */
+const MIN_CLIP_SEC = 0.5;
+/** Audio layout every clip is converted to (silence for clips without audio). */
+const AUDIO_RATE = 48000;
+const AUDIO_FORMAT = `aformat=sample_fmts=fltp:sample_rates=${AUDIO_RATE}:channel_layouts=stereo`;
+
+/** An uploaded clip file. */
+export interface ClipSource {
+  path: string;
+  originalName: string;
+  /** From hashingDiskStorage; reuses cached probes. */
+  sha256?: string;
+}
+
+interface PlannedClip {
+  source: ClipSource;
+  meta: VideoMetadata;
+  check: ClipCheck;
+}
+
+/** Probed clip list; render only when every clip passed (rejected is empty). */
+export interface CompilationPlan {
+  clips: ClipCheck[];
+  rejected: ClipCheck[];
+  planned: PlannedClip[];
+}
+
+export interface CompileContext {
+  /** Abort kills ffmpeg / ffprobe and rejects with '... cancelled'. */
+  signal?: AbortSignal;
+  onProgress?: (progress: ConversionProgress) => void;
+}
+
+function round3(n: number): number {
+  return Math.round(n * 1000) / 1000;
+}
+
+/**
+ * /process/shorts options a compilation does not apply (no per-source offset or crop, no audio
+ * processing, captions, watermark or music); any value but the default is rejected.
+ */
+const IGNORED_OPTIONS = [
+  'startOffsetSec',
+  'focusX',
+  'focusY',
+  'cropX',
+  'cropY',
+  'maxUpscale',
+  'normalizeAudio',
+  'targetLufs',
+  'truePeakDb',
+  'removeSilence',
+  'silenceThresholdDb',
+  'silenceMinSec',
+  'silencePaddingSec',
+  'previewSec',
+] as const;
+
+/**
+ * Nested option groups a compilation does not apply, with the request field prefix
+ * (captionFontSize, watermarkX, musicTrack, ...); any field off its default is rejected.
+ */
+const IGNORED_OPTION_GROUPS = { captionStyle: 'caption', watermark: 'watermark', music: 'music' } as const;
+
+/** Throws INVALID_OPTIONS for options a compilation cannot honor. */
+function assertCompileOptions(options: ProcessOptions): void {
+  for (const name of IGNORED_OPTIONS) {
+    if (options[name] !== DEFAULT_PROCESS_OPTIONS[name]) {
+      throw new Error(`INVALID_OPTIONS: ${name} is not supported by /compile`);
+    }
+  }
+  for (const [group, prefix] of Object.entries(IGNORED_OPTION_GROUPS) as [keyof typeof IGNORED_OPTION_GROUPS, string][]) {
+    const defaults: Record<string, unknown> = { ...DEFAULT_PROCESS_OPTIONS[group] };
+    const given: Record<string, unknown> = { ...options[group] };
+    const field = Object.keys(defaults).find((key) => given[key] !== defaults[key]);
+    if (field !== undefined) {
+      throw new Error(`INVALID_OPTIONS: ${prefix}${field[0].toUpperCase()}${field.slice(1)} is not supported by /compile`);
+    }
+  }
+  if (options.mode !== 'pad' && options.mode !== 'blur') {
+    throw new Error(`INVALID_OPTIONS: /compile frames clips with mode pad or blur, not ${options.mode}`);
+  }
+  if (options.outputFormat !== null && OUTPUT_FORMATS[options.outputFormat].animated) {
+    throw new Error(`INVALID_OPTIONS: outputFormat ${options.outputFormat} is not supported by /compile`);
+  }
+  if (options.durationStrategy === 'split') {
+    throw new Error('INVALID_OPTIONS: durationStrategy=split is not supported by /compile (use trim)');
+  }
+  if (options.encoding.targetSizeMB !== null) {
+    throw new Error('INVALID_OPTIONS: targetSizeMB is not supported by /compile');
+  }
+}
+
+function resolveSource(spec: ClipSpec, index: number, sources: ClipSource[]): ClipSource {
+  const source = typeof spec.file === 'number'
+    ? sources[spec.file]
+    : sources.find((s) => s.originalName === spec.file);
+  if (!source) {
+    throw new Error(`INVALID_OPTIONS: clips[${index}].file ${JSON.stringify(spec.file)} matches no uploaded file`);
+  }
+  return source;
+}
+
+/** Probe errors that end the request instead of rejecting one clip. */
+function isFatalProbeError(msg: string): boolean {
+  return msg.includes('cancelled') || msg.startsWith('SHUTTING_DOWN') || msg.includes('Path');
+}
+
+/**
+ * Resolve the clip list (default: every upload once, full length) against the uploads, probe each
+ * upload once and check every clip window. Rejected clips carry their reasons.
+ */
+export async function planCompilation(
+  sources: ClipSource[],
+  options: ProcessOptions,
+  compile: CompileOptions,
+  signal?: AbortSignal,
+): Promise<CompilationPlan> {
+  assertCompileOptions(options);
+  const specs: ClipSpec[] = compile.clips ?? sources.map((_, i) => ({ file: i, inSec: 0, outSec: null }));
+  const resolved = specs.map((spec, i) => resolveSource(spec, i, sources));
+
+  const probes = new Map<ClipSource, VideoMetadata | Error>();
+  for (const source of resolved) {
+    if (probes.has(source)) continue;
+    let meta = getCachedProbe(source.sha256)?.meta;
+    if (!meta) {
+      try {
+        meta = await getVideoMetadata(source.path, signal);
+        putCachedProbe(source.sha256, { meta });
+      } catch (e) {
+        if (isFatalProbeError((e as Error).message)) throw e;
+        probes.set(source, e as Error);
+        continue;
+      }
+    }
+    probes.set(source, meta);
+  }
+
+  const clips: ClipCheck[] = [];
+  const planned: PlannedClip[] = [];
+  specs.forEach((spec, i) => {
+    const source = resolved[i];
+    const probe = probes.get(source);
+    const check: ClipCheck = {
+      index: i,
+      file: source.originalName,
+      inSec: spec.inSec,
+      outSec: spec.outSec ?? 0,
+      durationSec: 0,
+      width: null,
+      height: null,
+      fps: null,
+      hasAudio: null,
+      reasons: [],
+    };
+    clips.push(check);
+    if (!probe || probe instanceof Error) {
+      check.reasons.push('PROBE_FAILED');
+      check.error = probe?.message;
+      return;
+    }
+    check.width = probe.width;
+    check.height = probe.height;
+    check.fps = probe.fps;
+    check.hasAudio = probe.hasAudio;
+    // an out point past the end means "to the end"
+    check.outSec = round3(Math.min(spec.outSec ?? probe.durationSec, probe.durationSec));
+    check.durationSec = round3(Math.max(0, check.outSec - check.inSec));
+    if (spec.inSec >= probe.durationSec) {
+      check.reasons.push('IN_POINT_PAST_END');
+    } else if (spec.outSec !== null && spec.outSec <= spec.inSec) {
+      check.reasons.push('OUT_POINT_BEFORE_IN');
+    } else {
+      // a middle clip fades in and out: both crossfades must fit inside it
+      const fades = (i > 0 ? 1 : 0) + (i < specs.length - 1 ? 1 : 0);
+      if (check.durationSec < Math.max(MIN_CLIP_SEC, fades * compile.crossfadeSec)) check.reasons.push('TOO_SHORT');
+    }
+    planned.push({ source, meta: probe, check });
+  });
+
+  return { clips, rejected: clips.filter((c) => c.reasons.length > 0), planned };
+}
+
+/**
+ * Render a plan without rejected clips into tmpDir. The joined length (clip windows minus
+ * crossfade overlaps) must fit maxDurationSec; with durationStrategy=trim the end is cut instead
+ * (INVALID_OPTIONS otherwise).
+ */
+export async function renderCompilation(
+  plan: CompilationPlan,
+  tmpDir: string,
+  options: ProcessOptions,
+  compile: CompileOptions,
+  ctx: CompileContext = {},
+): Promise<CompilationResult> {
+  if (plan.rejected.length > 0) throw new Error('renderCompilation: plan has rejected clips');
+  const { signal, onProgress } = ctx;
+  const clips = plan.planned;
+  const n = clips.length;
+  const xf = n > 1 ? compile.crossfadeSec : 0;
+  const totalSec = round3(clips.reduce((sum, c) => sum + c.check.durationSec, 0) - xf * (n - 1));
+  const trimmed = totalSec > options.maxDurationSec;
+  if (trimmed && options.durationStrategy !== 'trim') {
+    throw new Error(
+      `INVALID_OPTIONS: clips add up to ${totalSec}s, over maxDurationSec ${options.maxDurationSec}; `
+        + 'shorten the in / out points or set durationStrategy=trim',
+    );
+  }
+  const durationSec = trimmed ? options.maxDurationSec : totalSec;
+  const fps = Math.min(compile.fps, options.encoding.maxFps ?? compile.fps);
+
+  const args: string[] = ['-y'];
+  if (onProgress) args.push('-nostats', '-progress', 'pipe:1');
+  const graph: string[] = [];
+  clips.forEach(({ source, meta, check }, i) => {
+    const d = check.durationSec;
+    args.push('-ss', String(check.inSec), '-t', String(d), '-i', path.resolve(source.path));
+    graph.push(buildReframeFilter(`${i}:v`, `f${i}`, options, { sampleAspectRatio: meta.sampleAspectRatio }));
+    // exact length and a shared fps / timebase / pixel format: concat and xfade need matching inputs
+    graph.push(
+      `[f${i}]fps=${fps},setsar=1,format=yuv420p,tpad=stop_mode=clone:stop_duration=${d},`
+        + `trim=duration=${d},setpts=PTS-STARTPTS,settb=AVTB[v${i}]`,
+    );
+    graph.push(meta.hasAudio
+      ? `[${i}:a]aresample=${AUDIO_RATE},${AUDIO_FORMAT},apad,atrim=duration=${d},asetpts=PTS-STARTPTS[a${i}]`
+      : `anullsrc=r=${AUDIO_RATE}:cl=stereo,atrim=duration=${d},${AUDIO_FORMAT}[a${i}]`);
+  });
+
+  let v = 'v0';
+  let a = 'a0';
+  if (xf > 0) {
+    // each crossfade starts xf before the end of everything joined so far
+    let offset = 0;
+    for (let i = 1; i < n; i++) {
+      offset += clips[i - 1].check.durationSec - xf;
+      graph.push(`[${v}][v${i}]xfade=transition=fade:duration=${xf}:offset=${round3(offset)}[xv${i}]`);
+      graph.push(`[${a}][a${i}]acrossfade=d=${xf}[xa${i}]`);
+      v = `xv${i}`;
+      a = `xa${i}`;
+    }
+  } else if (n > 1) {
+    graph.push(`${clips.map((_, i) => `[v${i}][a${i}]`).join('')}concat=n=${n}:v=1:a=1[vcat][acat]`);
+    v = 'vcat';
+    a = 'acat';
+  }
+
+  const format = options.outputFormat ?? 'mp4-h264';
+  const spec = OUTPUT_FORMATS[format];
+  const outPath = outputPath(tmpDir, spec.ext);
+  args.push(
+    '-filter_complex', graph.join(';'),
+    '-map', `[${v}]`,
+    '-map', `[${a}]`,
+    ...buildVideoEncoderArgs(format, options.encoding),
+    '-c:a', format === 'webm-vp9' ? 'libopus' : 'aac',
+    '-b:a', `${options.encoding.audioBitrateKbps}k`,
+  );
+  if (trimmed) args.push('-t', String(durationSec));
+  if (spec.ext === '.mp4') args.push('-movflags', '+faststart');
+  args.push(path.resolve(outPath));
+
+  const done = trackConversion();
+  const startedAt = Date.now();
+  try {
+    await runFfmpeg(args, {
+      signal,
+      onStdout: onProgress && createProgressParser((values) => {
+        onProgress(toConversionProgress(values, durationSec, startedAt));
+      }),
+    });
+  } finally {
+    done();
+  }
+  if (!fs.existsSync(outPath)) {
+    throw new Error('ffmpeg completed but output file missing');
+  }
+  observeConversion(options.mode, (Date.now() - startedAt) / 1000);
+
+  const headers: Record<string, string> = {
+    'X-Video-Width': String(options.targetWidth),
+    'X-Video-Height': String(options.targetHeight),
+    'X-Video-DurationSec': String(durationSec),
+    'X-Video-AspectRatio': String(options.targetWidth / options.targetHeight),
+    'X-Profile': options.profile.id,
+    'X-Converted': 'true',
+    'X-Conversion-Mode': options.mode,
+    'X-Output-Format': format,
+    'X-Clip-Count': String(n),
+    'X-Clip-Durations': clips.map((c) => c.check.durationSec).join(','),
+    'X-Crossfade-Sec': String(xf),
+    'X-Fps': String(fps),
+    'X-Encode-Preset': options.encoding.preset,
+    'X-Encode-CRF': String(options.encoding.crf),
+  };
+  if (trimmed) {
+    headers['X-Duration-Strategy'] = 'trim';
+    headers['X-Untrimmed-DurationSec'] = String(totalSec);
+  }
+
+  return {
+    outPath,
+    contentType: spec.contentType,
+    filename: `shorts_compilation${spec.ext}`,
+    headers,
+    clips: plan.clips,
+    durationSec,
+  };
+}
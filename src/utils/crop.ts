@@ -0,0 +1,52 @@
+/**
+ * Crop mode geometry: largest target-aspect window inside the source, positioned by focus point
+ * or pixel offset, with an upscale guard.
+ */
+
+import type { CropWindow, ProcessOptions, VideoMetadata } from '../types';
+
+function even(n: number): number {
+  return Math.max(2, Math.floor(n / 2) * 2);
+}
+
+function clamp(n: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, n));
+}
+
+/**
+ * Compute the crop window for meta's (display) dimensions.
+ * Throws CROP_UPSCALE_EXCEEDED when filling the target needs more than options.maxUpscale.
+ */
+export function computeCropWindow(meta: VideoMetadata, options: ProcessOptions): CropWindow {
+  const { targetWidth, targetHeight, focusX, focusY, cropX, cropY, maxUpscale } = options;
+  const targetAspect = targetWidth / targetHeight;
+  const srcW = meta.width;
+  const srcH = meta.height;
+
+  let width: number;
+  let height: number;
+  if (srcW / srcH > targetAspect) {
+    height = even(srcH);
+    width = even(Math.min(srcW, height * targetAspect));
+  } else {
+    width = even(srcW);
+    height = even(Math.min(srcH, width / targetAspect));
+  }
+
+  const upscale = Math.round((targetWidth / width) * 1000) / 1000;
+  if (upscale > maxUpscale) {
+    throw new Error(
+      `CROP_UPSCALE_EXCEEDED: crop ${width}x${height} would be upscaled ${upscale}x to ` +
+        `${targetWidth}x${targetHeight} (maxUpscale ${maxUpscale})`,
+    );
+  }
+
+  const x = cropX !== null
+    ? clamp(cropX, 0, srcW - width)
+    : clamp(Math.round(focusX * srcW - width / 2), 0, srcW - width);
+  const y = cropY !== null
+    ? clamp(cropY, 0, srcH - height)
+    : clamp(Math.round(focusY * srcH - height / 2), 0, srcH - height);
+
+  return { x, y, width, height, upscale };
+}
@@ -0,0 +1,170 @@
+/**
+ * sourceUrl ingest: stream a remote video into the request's tmp dir instead of a multipart upload.
+ * Guards: SOURCE_URL_* host policy on every hop (see urlguard), redirect limit, overall timeout,
+ * content-type and MAX_FILE_SIZE_BYTES.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import * as path from 'path';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import {
+  MAX_FILE_SIZE_BYTES,
+  SOURCE_URL_MAX_REDIRECTS_DEFAULT,
+  SOURCE_URL_TIMEOUT_SEC_DEFAULT,
+} from '../types';
+import { hashingTransform } from './hashstorage';
+import { sanitizeFilename } from './tmp';
+import { assertUrlAllowed, guardedLookup, type UrlPolicy, urlPolicy } from './urlguard';
+
+function envInt(name: string, fallback: number, min: number, max: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return fallback;
+  const n = parseInt(raw, 10);
+  if (!Number.isFinite(n) || n < min) return fallback;
+  return Math.min(n, max);
+}
+
+/** Extension for a download whose URL has none, by response content type. */
+const TYPE_EXTS: Record<string, string> = {
+  'video/mp4': '.mp4',
+  'video/quicktime': '.mov',
+  'video/webm': '.webm',
+  'video/x-matroska': '.mkv',
+  'video/x-msvideo': '.avi',
+};
+
+export interface DownloadedSource {
+  /** File inside tmpDir. */
+  path: string;
+  /** Name derived from the URL path, for Content-Disposition. */
+  originalName: string;
+  size: number;
+  contentType: string;
+  /** Hex SHA-256 of the downloaded bytes (result cache key). */
+  sha256: string;
+}
+
+function isRedirect(status: number): boolean {
+  return status === 301 || status === 302 || status === 303 || status === 307 || status === 308;
+}
+
+/** Accept video/* and application/octet-stream (common for object storage); anything else is FILE_NOT_VIDEO. */
+function isVideoContentType(contentType: string): boolean {
+  return contentType.startsWith('video/') || contentType === 'application/octet-stream' || contentType === '';
+}
+
+/** GET one hop; resolves with the response (caller consumes or discards the body). */
+function request(url: URL, policy: UrlPolicy, signal: AbortSignal): Promise<http.IncomingMessage> {
+  const client = url.protocol === 'https:' ? https : http;
+  return new Promise((resolve, reject) => {
+    const req = client.get(url, {
+      lookup: guardedLookup(policy),
+      signal,
+      headers: { 'User-Agent': 'video-shorts-api', Accept: 'video/*, application/octet-stream;q=0.9' },
+    }, resolve);
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Download sourceUrl into tmpDir, following up to SOURCE_URL_MAX_REDIRECTS redirects (each hop
+ * re-checked) within SOURCE_URL_TIMEOUT_SEC. signal aborts (client gone).
+ * Errors: SOURCE_URL_INVALID / SOURCE_URL_FORBIDDEN / SOURCE_URL_FAILED / SOURCE_URL_TIMEOUT,
+ * FILE_NOT_VIDEO (content type) and the "File size exceeds" error of assertFileSize.
+ */
+export async function downloadSource(
+  sourceUrl: string,
+  tmpDir: string,
+  signal?: AbortSignal,
+): Promise<DownloadedSource> {
+  let url: URL;
+  try {
+    url = new URL(sourceUrl);
+  } catch {
+    throw new Error('SOURCE_URL_INVALID: sourceUrl is not a valid URL');
+  }
+
+  const timeoutSec = envInt('SOURCE_URL_TIMEOUT_SEC', SOURCE_URL_TIMEOUT_SEC_DEFAULT, 5, 3600);
+  const maxRedirects = envInt('SOURCE_URL_MAX_REDIRECTS', SOURCE_URL_MAX_REDIRECTS_DEFAULT, 0, 20);
+  const policy = urlPolicy('SOURCE_URL');
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutSec * 1000);
+  const onAbort = (): void => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    let res: http.IncomingMessage;
+    for (let hop = 0; ; hop++) {
+      assertUrlAllowed(url, policy);
+      res = await request(url, policy, controller.signal);
+      const status = res.statusCode ?? 0;
+      if (!isRedirect(status)) break;
+      res.resume();
+      if (hop >= maxRedirects) {
+        throw new Error(`SOURCE_URL_FAILED: more than ${maxRedirects} redirects`);
+      }
+      const location = res.headers.location;
+      if (!location) {
+        throw new Error(`SOURCE_URL_FAILED: HTTP ${status} without Location`);
+      }
+      url = new URL(location, url);
+    }
+
+    const status = res.statusCode ?? 0;
+    if (status < 200 || status >= 300) {
+      res.resume();
+      throw new Error(`SOURCE_URL_FAILED: source responded HTTP ${status}`);
+    }
+    const contentType = (res.headers['content-type'] ?? '').split(';')[0].trim().toLowerCase();
+    if (!isVideoContentType(contentType)) {
+      res.resume();
+      throw new Error('FILE_NOT_VIDEO');
+    }
+    const limitMB = MAX_FILE_SIZE_BYTES / 1024 / 1024;
+    const declared = Number(res.headers['content-length']);
+    if (Number.isFinite(declared) && declared > MAX_FILE_SIZE_BYTES) {
+      res.resume();
+      throw new Error(`File size exceeds ${limitMB}MB limit`);
+    }
+
+    const urlName = decodeURIComponent(path.basename(url.pathname)) || 'video';
+    const urlExt = path.extname(urlName).toLowerCase();
+    const ext = /^\.[a-z0-9]{1,5}$/.test(urlExt) ? urlExt : TYPE_EXTS[contentType] ?? '.mp4';
+    const base = sanitizeFilename(path.basename(urlName, urlExt) || 'video');
+    const filePath = path.join(tmpDir, `${base}${ext}`);
+
+    // count while streaming: Content-Length may be missing or wrong
+    let size = 0;
+    const limiter = new Transform({
+      transform(chunk: Buffer, _enc, cb) {
+        size += chunk.length;
+        if (size > MAX_FILE_SIZE_BYTES) {
+          cb(new Error(`File size exceeds ${limitMB}MB limit`));
+          return;
+        }
+        cb(null, chunk);
+      },
+    });
+    const hash = crypto.createHash('sha256');
+    await pipeline(res, limiter, hashingTransform(hash), fs.createWriteStream(filePath));
+
+    return { path: filePath, originalName: `${base}${ext}`, size, contentType, sha256: hash.digest('hex') };
+  } catch (e) {
+    if (timedOut) throw new Error(`SOURCE_URL_TIMEOUT: download did not finish within ${timeoutSec}s`);
+    if (signal?.aborted) throw new Error('download cancelled');
+    const msg = (e as Error).message ?? String(e);
+    if (/^(SOURCE_URL_|FILE_NOT_VIDEO|File size exceeds)/.test(msg)) throw e;
+    throw new Error(`SOURCE_URL_FAILED: ${msg}`);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Error taxonomy: map thrown errors to HTTP status + JSON error code.
+ * Shared by the synchronous routes and the job API so both report the same codes.
+ */
+
+export interface ErrorResponse {
+  status: number;
+  error: string;
+  message: string;
+}
+
+/**
+ * Classify an error thrown while probing / converting.
+ * Utilities signal the category via the message (e.g. 'FILE_NOT_VIDEO', 'ffprobe ...', 'ffmpeg ...').
+ */
+export function toErrorResponse(e: unknown): ErrorResponse {
+  const msg = (e as Error)?.message ?? String(e);
+
+  if (msg === 'FILE_NOT_VIDEO') {
+    return { status: 415, error: 'UNSUPPORTED_MEDIA', message: 'File is not a video (invalid MIME type).' };
+  }
+  if (msg === 'FILE_NOT_CAPTIONS') {
+    return { status: 415, error: 'UNSUPPORTED_MEDIA', message: 'Captions must be an SRT or WebVTT text file.' };
+  }
+  if (msg === 'FILE_NOT_IMAGE') {
+    return { status: 415, error: 'UNSUPPORTED_MEDIA', message: 'Watermark must be a PNG, JPEG or WebP image.' };
+  }
+  if (msg === 'FILE_NOT_AUDIO') {
+    return { status: 415, error: 'UNSUPPORTED_MEDIA', message: 'Music must be an audio file (MP3, M4A, AAC, WAV, OGG, Opus or FLAC).' };
+  }
+  if (msg.startsWith('INVALID_CAPTIONS')) {
+    return { status: 400, error: 'INVALID_CAPTIONS', message: msg.replace(/^INVALID_CAPTIONS:\s*/, '') };
+  }
+  if (msg.startsWith('INVALID_OPTIONS')) {
+    return { status: 400, error: 'INVALID_OPTIONS', message: msg.replace(/^INVALID_OPTIONS:\s*/, '') };
+  }
+  if (msg.startsWith('OPTION_NOT_ALLOWED')) {
+    return { status: 403, error: 'OPTION_NOT_ALLOWED', message: msg.replace(/^OPTION_NOT_ALLOWED:\s*/, '') };
+  }
+  if (msg.startsWith('CROP_UPSCALE_EXCEEDED')) {
+    return { status: 422, error: 'CROP_UPSCALE_EXCEEDED', message: msg.replace(/^CROP_UPSCALE_EXCEEDED:\s*/, '') };
+  }
+  if (msg.startsWith('SOURCE_URL_INVALID')) {
+    return { status: 400, error: 'SOURCE_URL_INVALID', message: msg.replace(/^SOURCE_URL_INVALID:\s*/, '') };
+  }
+  if (msg.startsWith('SOURCE_URL_FORBIDDEN')) {
+    return { status: 403, error: 'SOURCE_URL_FORBIDDEN', message: msg.replace(/^SOURCE_URL_FORBIDDEN:\s*/, '') };
+  }
+  if (msg.startsWith('SOURCE_URL_TIMEOUT')) {
+    return { status: 504, error: 'SOURCE_URL_TIMEOUT', message: msg.replace(/^SOURCE_URL_TIMEOUT:\s*/, '') };
+  }
+  if (msg.startsWith('SOURCE_URL_FAILED')) {
+    return { status: 502, error: 'SOURCE_URL_FAILED', message: msg.replace(/^SOURCE_URL_FAILED:\s*/, '') };
+  }
+  if (msg.startsWith('INVALID_UPLOAD')) {
+    return { status: 400, error: 'INVALID_UPLOAD', message: msg.replace(/^INVALID_UPLOAD:\s*/, '') };
+  }
+  if (msg.startsWith('CHECKSUM_MISMATCH')) {
+    return { status: 400, error: 'CHECKSUM_MISMATCH', message: msg.replace(/^CHECKSUM_MISMATCH:\s*/, '') };
+  }
+  if (msg.startsWith('UPLOAD_NOT_FOUND')) {
+    return { status: 404, error: 'UPLOAD_NOT_FOUND', message: msg.replace(/^UPLOAD_NOT_FOUND:\s*/, '') };
+  }
+  if (msg.startsWith('UPLOAD_OFFSET_MISMATCH:')) {
+    return { status: 409, error: 'UPLOAD_OFFSET_MISMATCH', message: msg.replace(/^UPLOAD_OFFSET_MISMATCH:\s*/, '') };
+  }
+  if (msg.startsWith('UPLOAD_BUSY:')) {
+    return { status: 409, error: 'UPLOAD_BUSY', message: msg.replace(/^UPLOAD_BUSY:\s*/, '') };
+  }
+  if (msg.startsWith('UPLOAD_INCOMPLETE:')) {
+    return { status: 409, error: 'UPLOAD_INCOMPLETE', message: msg.replace(/^UPLOAD_INCOMPLETE:\s*/, '') };
+  }
+  if (msg.startsWith('UPLOAD_COMPLETE:')) {
+    return { status: 409, error: 'UPLOAD_COMPLETE', message: msg.replace(/^UPLOAD_COMPLETE:\s*/, '') };
+  }
+  if (msg.startsWith('SHUTTING_DOWN')) {
+    return { status: 503, error: 'SHUTTING_DOWN', message: msg.replace(/^SHUTTING_DOWN:\s*/, '') };
+  }
+  if (msg.startsWith('INSUFFICIENT_STORAGE')) {
+    return { status: 507, error: 'INSUFFICIENT_STORAGE', message: msg.replace(/^INSUFFICIENT_STORAGE:\s*/, '') };
+  }
+  if (msg === 'QUEUE_FULL') {
+    return { status: 503, error: 'QUEUE_FULL', message: 'Job queue is full; retry later.' };
+  }
+  if (msg.includes('cancelled')) {
+    return { status: 499, error: 'CANCELLED', message: msg };
+  }
+  if (msg.includes('ffprobe')) {
+    return { status: 422, error: 'PROBE_FAILED', message: msg };
+  }
+  if (msg.includes('ffmpeg') || msg.includes('timeout') || msg.startsWith('zip')) {
+    return { status: 500, error: 'CONVERSION_FAILED', message: msg };
+  }
+  if (msg.includes('exited with code')) {
+    return { status: 422, error: 'PROBE_FAILED', message: msg };
+  }
+  if (msg.includes('exceeds') && msg.includes('MB')) {
+    return { status: 400, error: 'FILE_TOO_LARGE', message: msg };
+  }
+  if (msg.includes('Path must be under temp') || msg.includes('Path traversal')) {
+    return { status: 400, error: 'INVALID_PATH', message: msg };
+  }
+  return { status: 500, error: 'UNKNOWN', message: msg };
+}
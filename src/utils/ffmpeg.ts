@@ -1,17 +1,48 @@
 /**
- * FFmpeg conversion: pad and blur modes. Uses spawn, configurable timeout.
- * H.264 + AAC, mp4 output.
+ * FFmpeg conversion: pad, blur, crop and auto (tracked crop) modes. Uses spawn, configurable timeout.
+ * MP4 (H.264 / HEVC + AAC), WebM (VP9 + Opus) or animated GIF / WebP; CRF or two-pass target size.
  * Timeout: FFMPEG_TIMEOUT_SEC env (default 600). Process killed on timeout.
  */
 
 import { spawn } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
-import type { ProcessOptions } from '../types';
+import type {
+  AutoFrameKeyframe,
+  AutoFramePath,
+  ConversionProgress,
+  ConvertContext,
+  CropWindow,
+  EncodingOptions,
+  LoudnessMeasurement,
+  OutputFormat,
+  ProcessOptions,
+  X264Preset,
+} from '../types';
 import { FFMPEG_TIMEOUT_SEC_DEFAULT } from '../types';
+import { OUTPUT_FORMATS } from './formats';
+import { recordToolFailure } from './metrics';
+import { registerProcess } from './processes';
 
 const FFMPEG = 'ffmpeg';
 
+/** loudnorm loudness-range target; raised to the measured range so the second pass stays linear. */
+const LOUDNORM_LRA = 11;
+
+/** Layout music and source audio are mixed in. */
+const MIX_FORMAT = 'aresample=48000,aformat=sample_fmts=fltp:channel_layouts=stereo';
+/** Music ducking: source level (linear, about -26 dBFS) above which the music is compressed. */
+const DUCK_THRESHOLD = 0.05;
+
+/** Animated previews (gif / webp): frame-rate and width caps. */
+const PREVIEW_FPS = 12;
+const PREVIEW_WIDTH = 360;
+
+/** Share of targetSizeMB given to audio + video; the rest covers container overhead and rate-control drift. */
+const TARGET_SIZE_MARGIN = 0.97;
+/** Below this, target-size output would be unwatchable; reject instead. */
+const MIN_TARGET_VIDEO_KBPS = 100;
+
 const MIN_TIMEOUT_SEC = 60;
 const MAX_TIMEOUT_SEC = 3600;
 
@@ -29,19 +60,273 @@ function safePath(p: string): string {
 }
 
 /**
- * Convert video to Shorts format (1080x1920). Writes to outputPath.
- * mode: 'pad' | 'blur'
+ * Escape a value (e.g. a file path) for use as a filter option inside a filter graph.
  */
-export function convertToShorts(
-  inputPath: string,
-  outputPath: string,
+function escapeFilterValue(value: string): string {
+  return value
+    .replace(/\\/g, '/')
+    .replace(/[:'\[\],;]/g, (c) => `\\${c}`);
+}
+
+/** Precomputed geometry for the crop-based modes. */
+export interface ReframeGeometry {
+  /** mode=crop: static window. */
+  crop?: CropWindow;
+  /** mode=auto: tracked window path (absolute source times). */
+  autoPath?: AutoFramePath;
+  /** Source time of the first frame fed to the filter (segment start), to align autoPath. */
+  startSec?: number;
+  /** Source pixel aspect ratio (meta.sampleAspectRatio); anything but 1 is squared first. */
+  sampleAspectRatio?: number;
+}
+
+/**
+ * Filter graph that reframes [input] into a targetWidth x targetHeight [output] per options.mode.
+ * Labels are given without brackets. geometry.crop is required for mode=crop, geometry.autoPath for mode=auto.
+ */
+export function buildReframeFilter(
+  input: string,
+  output: string,
   options: ProcessOptions,
-): Promise<void> {
-  const mode = options.mode;
+  geometry: ReframeGeometry = {},
+): string {
   const w = options.targetWidth;
   const h = options.targetHeight;
-  const inPath = safePath(inputPath);
-  const outPath = safePath(outputPath);
+  const { crop, autoPath } = geometry;
+
+  // anamorphic sources: stretch to square pixels so display-size geometry (crop windows) lines up
+  const sar = geometry.sampleAspectRatio ?? 1;
+  if (Math.abs(sar - 1) > 0.001) {
+    const squared = `${output}sq`;
+    return `[${input}]scale=trunc(iw*sar/2)*2:ih,setsar=1[${squared}];`
+      + buildReframeFilter(squared, output, options, { ...geometry, sampleAspectRatio: 1 });
+  }
+
+  if (options.mode === 'pad') {
+    // scale=1080:-2:force_original_aspect_ratio=decrease,pad=1080:1920:(ow-iw)/2:(oh-ih)/2
+    return `[${input}]scale=${w}:-2:force_original_aspect_ratio=decrease,pad=${w}:${h}:(ow-iw)/2:(oh-ih)/2[${output}]`;
+  }
+  if (options.mode === 'crop') {
+    if (!crop) throw new Error('ffmpeg: crop mode requires a crop window');
+    // crop the focus window out of the source, then scale it to fill the frame
+    return `[${input}]crop=${crop.width}:${crop.height}:${crop.x}:${crop.y},scale=${w}:${h},setsar=1[${output}]`;
+  }
+  if (options.mode === 'auto') {
+    if (!autoPath) throw new Error('ffmpeg: auto mode requires an analyzed crop path');
+    // crop window follows the smoothed motion path; x / y are piecewise-linear in t
+    const x = keyframeExpression(autoPath.keyframes, 'x', geometry.startSec ?? 0);
+    const y = keyframeExpression(autoPath.keyframes, 'y', geometry.startSec ?? 0);
+    return `[${input}]crop=w=${autoPath.width}:h=${autoPath.height}:x='${x}':y='${y}',scale=${w}:${h},setsar=1[${output}]`;
+  }
+  // blur: [0] scale+pad+blur as bg, [0] scale as fg, overlay
+  // bg: scale to cover 1080x1920, then crop, then blur
+  // fg: scale to 1080 width, keep aspect
+  // inner labels carry the output label so several reframes can share one graph (/compile)
+  return [
+    `[${input}]split=2[${output}bgsrc][${output}fgsrc]`,
+    `[${output}bgsrc]scale=${w}:${h}:force_original_aspect_ratio=increase,crop=${w}:${h},boxblur=20:10[${output}bg]`,
+    `[${output}fgsrc]scale=${w}:-2[${output}fg]`,
+    `[${output}bg][${output}fg]overlay=(main_w-overlay_w)/2:(main_h-overlay_h)/2:format=auto[${output}]`,
+  ].join(';');
+}
+
+/**
+ * Overlay the logo [logo] on [video] -> [output]: scaled to a fraction of the output width,
+ * faded to options.watermark.opacity, placed by corner or absolute x/y, optionally time-limited.
+ * Window times are source times; startSec shifts them to the segment's t=0.
+ */
+export function buildWatermarkFilter(
+  logo: string,
+  video: string,
+  output: string,
+  options: ProcessOptions,
+  startSec = 0,
+): string {
+  const wm = options.watermark;
+  const logoWidth = Math.max(2, Math.round(options.targetWidth * wm.scale));
+  const m = wm.margin;
+
+  let x: string;
+  let y: string;
+  if (wm.x !== null && wm.y !== null) {
+    x = String(wm.x);
+    y = String(wm.y);
+  } else {
+    const left = String(m);
+    const right = `main_w-overlay_w-${m}`;
+    const top = String(m);
+    const bottom = `main_h-overlay_h-${m}`;
+    switch (wm.position) {
+      case 'top-right': x = right; y = top; break;
+      case 'bottom-left': x = left; y = bottom; break;
+      case 'bottom-right': x = right; y = bottom; break;
+      case 'center': x = '(main_w-overlay_w)/2'; y = '(main_h-overlay_h)/2'; break;
+      default: x = left; y = top;
+    }
+  }
+
+  let enable = '';
+  if (wm.startSec !== null || wm.endSec !== null) {
+    const from = Math.round(((wm.startSec ?? 0) - startSec) * 1000) / 1000;
+    enable = wm.endSec !== null
+      ? `:enable='between(t,${from},${Math.round((wm.endSec - startSec) * 1000) / 1000})'`
+      : `:enable='gte(t,${from})'`;
+  }
+
+  return [
+    `[${logo}]format=rgba,scale=${logoWidth}:-1,colorchannelmixer=aa=${wm.opacity}[logo]`,
+    `[${video}][logo]overlay=${x}:${y}:format=auto${enable}[${output}]`,
+  ].join(';');
+}
+
+/**
+ * ffmpeg expression for a keyframe coordinate as a function of frame time t (piecewise linear).
+ * Keyframe times are absolute source times; startSec shifts them to the segment's t=0.
+ */
+function keyframeExpression(keyframes: AutoFrameKeyframe[], axis: 'x' | 'y', startSec: number): string {
+  if (keyframes.length === 0) return '0';
+  const pts = keyframes.map((k) => ({ t: Math.round((k.timeSec - startSec) * 1000) / 1000, v: k[axis] }));
+  if (pts.every((p) => p.v === pts[0].v)) return String(pts[0].v);
+  let expr = String(pts[pts.length - 1].v);
+  for (let i = pts.length - 2; i >= 0; i--) {
+    const a = pts[i];
+    const b = pts[i + 1];
+    const span = b.t - a.t;
+    const seg = a.v === b.v || span <= 0
+      ? String(a.v)
+      : `${a.v}+(${b.v - a.v})*(t${a.t < 0 ? '+' : '-'}${Math.abs(a.t)})/${span}`;
+    expr = `if(lt(t,${b.t}),${seg},${expr})`;
+  }
+  return `if(lt(t,${pts[0].t}),${pts[0].v},${expr})`;
+}
+
+/**
+ * Parse ffmpeg `-progress pipe:1` output (key=value lines, one block per `progress=` line).
+ * Calls onBlock with each completed block's values.
+ */
+export function createProgressParser(onBlock: (values: Map<string, string>) => void): (chunk: Buffer) => void {
+  let buffer = '';
+  let values = new Map<string, string>();
+  return (chunk: Buffer) => {
+    buffer += chunk.toString();
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      const eq = line.indexOf('=');
+      if (eq <= 0) continue;
+      const key = line.slice(0, eq).trim();
+      values.set(key, line.slice(eq + 1).trim());
+      if (key === 'progress') {
+        onBlock(values);
+        values = new Map();
+      }
+    }
+  };
+}
+
+/**
+ * Turn one -progress block into percent / speed / ETA against the expected media duration.
+ */
+export function toConversionProgress(
+  values: Map<string, string>,
+  durationSec: number,
+  startedAt: number,
+): ConversionProgress {
+  // out_time_us and out_time_ms are both microseconds in ffmpeg's -progress output.
+  const done = values.get('progress') === 'end';
+  const outUs = Number(values.get('out_time_us') ?? values.get('out_time_ms'));
+  const rawOutSec = Number.isFinite(outUs) && outUs > 0 ? outUs / 1e6 : 0;
+  const outTimeSec = done ? durationSec : durationSec > 0 ? Math.min(rawOutSec, durationSec) : rawOutSec;
+  const speedRaw = parseFloat((values.get('speed') ?? '').replace('x', ''));
+  const speed = Number.isFinite(speedRaw) && speedRaw > 0 ? speedRaw : null;
+  const percent = done
+    ? 100
+    : durationSec > 0 ? Math.min(99.9, (outTimeSec / durationSec) * 100) : 0;
+  const remaining = Math.max(0, durationSec - outTimeSec);
+  return {
+    percent: Math.round(percent * 10) / 10,
+    outTimeSec: Math.round(outTimeSec * 1000) / 1000,
+    durationSec,
+    elapsedSec: Math.round((Date.now() - startedAt) / 100) / 10,
+    speed,
+    etaSec: done ? 0 : speed ? Math.round((remaining / speed) * 10) / 10 : null,
+  };
+}
+
+/**
+ * EBU R128 loudnorm at options.targetLufs / options.truePeakDb, printing its levels as JSON.
+ * Without measured: first (analysis) pass. With measured: second pass, linear gain from
+ * the first-pass values, resampled back to 48 kHz (loudnorm works at 192 kHz).
+ */
+export function buildLoudnormFilter(options: ProcessOptions, measured?: LoudnessMeasurement): string {
+  const lra = measured
+    ? Math.min(50, Math.max(LOUDNORM_LRA, Math.ceil(measured.loudnessRangeLu)))
+    : LOUDNORM_LRA;
+  const target = `loudnorm=I=${options.targetLufs}:TP=${options.truePeakDb}:LRA=${lra}`;
+  if (!measured) return `${target}:print_format=json`;
+  return [
+    target,
+    `measured_I=${measured.integratedLufs}`,
+    `measured_TP=${measured.truePeakDb}`,
+    `measured_LRA=${measured.loudnessRangeLu}`,
+    `measured_thresh=${measured.thresholdLufs}`,
+    `offset=${measured.targetOffsetLu}`,
+    'linear=true:print_format=json,aresample=48000',
+  ].join(':');
+}
+
+/**
+ * Background music [music] under [voice] -> [output]: gain, fade in / out, cut or padded with
+ * silence to durationSec (0 = unknown: no cut, no fade-out). With options.music.ducking the voice
+ * drives a sidechain compressor on the music. voice null (source without audio): the music alone.
+ */
+export function buildMusicFilter(
+  music: string,
+  voice: string | null,
+  output: string,
+  options: ProcessOptions,
+  durationSec: number,
+): string {
+  const m = options.music;
+  const chain = [MIX_FORMAT, `volume=${m.volume}`];
+  if (durationSec > 0) chain.push('apad', `atrim=duration=${durationSec}`);
+  if (m.fadeInSec > 0) chain.push(`afade=t=in:st=0:d=${m.fadeInSec}`);
+  if (m.fadeOutSec > 0 && durationSec > 0) {
+    const fade = Math.min(m.fadeOutSec, durationSec);
+    chain.push(`afade=t=out:st=${Math.round((durationSec - fade) * 1000) / 1000}:d=${fade}`);
+  }
+  if (voice === null) return `[${music}]${chain.join(',')}[${output}]`;
+
+  const graph = [`[${music}]${chain.join(',')}[${output}bed]`];
+  let bed = `${output}bed`;
+  if (m.ducking) {
+    graph.push(`[${voice}]${MIX_FORMAT},asplit=2[${output}voice][${output}key]`);
+    graph.push(
+      `[${bed}][${output}key]sidechaincompress=threshold=${DUCK_THRESHOLD}:ratio=${m.duckRatio}`
+        + `:attack=20:release=400[${output}ducked]`,
+    );
+    bed = `${output}ducked`;
+  } else {
+    graph.push(`[${voice}]${MIX_FORMAT}[${output}voice]`);
+  }
+  // the voice sets the length; no level halving (normalize=0), the music gain is volume alone
+  graph.push(`[${output}voice][${bed}]amix=inputs=2:duration=first:dropout_transition=0:normalize=0[${output}]`);
+  return graph.join(';');
+}
+
+export interface RunFfmpegOptions {
+  /** Abort kills ffmpeg and rejects with 'ffmpeg cancelled'. */
+  signal?: AbortSignal;
+  /** Receives stdout (e.g. -progress pipe:1 or rawvideo pipe:1); otherwise stdout is discarded. */
+  onStdout?: (chunk: Buffer) => void;
+}
+
+/**
+ * Spawn ffmpeg with args (no shell) under the FFMPEG_TIMEOUT_SEC guard.
+ * Resolves with stderr (analysis filters such as loudnorm / silencedetect report there).
+ */
+export function runFfmpeg(args: string[], opts: RunFfmpegOptions = {}): Promise<string> {
+  const { signal, onStdout } = opts;
   const timeoutSec = getFfmpegTimeoutSec();
   const timeoutMs = timeoutSec * 1000;
 
@@ -49,74 +334,310 @@ export function convertToShorts(
     let settled = false;
     const finish = (): void => { settled = true; };
 
-    const args: string[] = ['-y', '-i', inPath];
-
-    if (mode === 'pad') {
-      // scale=1080:-2:force_original_aspect_ratio=decrease,pad=1080:1920:(ow-iw)/2:(oh-ih)/2
-      args.push(
-        '-vf', `scale=${w}:-2:force_original_aspect_ratio=decrease,pad=${w}:${h}:(ow-iw)/2:(oh-ih)/2`,
-        '-map', '0:v',
-        '-map', '0:a?',
-        '-c:v', 'libx264', '-preset', 'veryfast', '-crf', '23',
-        '-c:a', 'aac', '-b:a', '128k',
-        '-movflags', '+faststart',
-        '-shortest',
-        outPath,
-      );
-    } else {
-      // blur: [0] scale+pad+blur as bg, [0] scale as fg, overlay
-      // bg: scale to cover 1080x1920, then crop, then blur
-      // fg: scale to 1080 width, keep aspect
-      const filter = [
-        `[0:v]scale=${w}:${h}:force_original_aspect_ratio=increase,crop=${w}:${h},boxblur=20:10[bg]`,
-        `[0:v]scale=${w}:-2[fg]`,
-        `[bg][fg]overlay=(main_w-overlay_w)/2:(main_h-overlay_h)/2:format=auto[v]`,
-      ].join(';');
-      args.push(
-        '-filter_complex', filter,
-        '-map', '[v]',
-        '-map', '0:a?',
-        '-c:v', 'libx264', '-preset', 'veryfast', '-crf', '23',
-        '-c:a', 'aac', '-b:a', '128k',
-        '-movflags', '+faststart',
-        '-shortest',
-        outPath,
-      );
+    if (signal?.aborted) {
+      reject(new Error('ffmpeg cancelled'));
+      return;
     }
 
     const proc = spawn(FFMPEG, args, { stdio: ['ignore', 'pipe', 'pipe'] });
     let stderr = '';
+    const unregister = registerProcess('ffmpeg', () => {
+      if (settled) return;
+      finish();
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
+      proc.kill('SIGKILL');
+      reject(new Error('SHUTTING_DOWN: ffmpeg stopped, the server is shutting down'));
+    });
 
     proc.stderr?.on('data', (chunk: Buffer) => { stderr += chunk.toString(); });
+    if (onStdout) {
+      proc.stdout?.on('data', onStdout);
+    } else {
+      proc.stdout?.resume();
+    }
 
     const timeoutId = setTimeout(() => {
       if (settled) return;
       finish();
       clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
       proc.kill('SIGKILL');
+      recordToolFailure('ffmpeg', 'timeout');
       reject(new Error(`ffmpeg timeout after ${timeoutSec}s`));
     }, timeoutMs);
 
+    function onAbort(): void {
+      if (settled) return;
+      finish();
+      clearTimeout(timeoutId);
+      proc.kill('SIGKILL');
+      reject(new Error('ffmpeg cancelled'));
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+
     proc.on('error', (err) => {
+      unregister();
       if (settled) return;
       finish();
       clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
+      recordToolFailure('ffmpeg', 'error');
       reject(new Error(`ffmpeg spawn failed: ${(err as Error).message}`));
     });
 
-    proc.on('close', (code, signal) => {
+    proc.on('close', (code, exitSignal) => {
+      unregister();
       clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
       if (settled) return;
       finish();
       if (code !== 0) {
-        reject(new Error(`ffmpeg exited with code ${code ?? signal}. stderr: ${stderr.slice(-2000)}`));
-        return;
-      }
-      if (!fs.existsSync(outPath)) {
-        reject(new Error('ffmpeg completed but output file missing'));
+        recordToolFailure('ffmpeg', 'error');
+        reject(new Error(`ffmpeg exited with code ${code ?? exitSignal}. stderr: ${stderr.slice(-2000)}`));
         return;
       }
-      resolve();
+      resolve(stderr);
     });
   });
 }
+
+/** x264 preset -> libvpx-vp9 cpu-used (deadline=good allows 0-5; higher is faster). */
+const VP9_CPU_USED: Record<X264Preset, number> = {
+  ultrafast: 5,
+  superfast: 5,
+  veryfast: 5,
+  faster: 4,
+  fast: 3,
+  medium: 2,
+  slow: 1,
+  slower: 0,
+  veryslow: 0,
+};
+
+/**
+ * Video encoder args for the output format: CRF or (two-pass) average bitrate, speed preset,
+ * VBV cap and fps cap. H.264 also takes profile / level; an explicit profile pins 8-bit 4:2:0,
+ * which baseline / main / high require. gif / webp previews only pick the encoder.
+ */
+export function buildVideoEncoderArgs(
+  format: OutputFormat,
+  encoding: EncodingOptions,
+  videoBitrateKbps?: number,
+): string[] {
+  if (format === 'gif') return ['-c:v', 'gif'];
+  if (format === 'webp') return ['-c:v', 'libwebp_anim', '-quality', '75'];
+
+  const args: string[] = [];
+  if (format === 'webm-vp9') {
+    args.push('-c:v', 'libvpx-vp9', '-deadline', 'good', '-cpu-used', String(VP9_CPU_USED[encoding.preset]), '-row-mt', '1');
+    // constant quality in VP9 needs -b:v 0; VP9's crf scale runs to 63
+    args.push(...(videoBitrateKbps !== undefined ? ['-b:v', `${videoBitrateKbps}k`] : ['-crf', String(encoding.crf), '-b:v', '0']));
+  } else {
+    args.push('-c:v', format === 'mp4-hevc' ? 'libx265' : 'libx264', '-preset', encoding.preset);
+    args.push(...(videoBitrateKbps !== undefined ? ['-b:v', `${videoBitrateKbps}k`] : ['-crf', String(encoding.crf)]));
+  }
+  if (encoding.maxBitrateKbps !== null) {
+    args.push('-maxrate', `${encoding.maxBitrateKbps}k`, '-bufsize', `${encoding.bufsizeKbps ?? encoding.maxBitrateKbps * 2}k`);
+  }
+  if (encoding.maxFps !== null) args.push('-fpsmax', String(encoding.maxFps));
+  if (format === 'mp4-hevc') {
+    // hvc1 tag: required by Apple players / QuickTime for HEVC in MP4
+    args.push('-tag:v', 'hvc1');
+  } else if (format === 'mp4-h264') {
+    if (encoding.h264Profile !== null) args.push('-profile:v', encoding.h264Profile, '-pix_fmt', 'yuv420p');
+    if (encoding.h264Level !== null) args.push('-level:v', encoding.h264Level);
+  }
+  return args;
+}
+
+/** Two-pass args for one pass; libx265 takes its stats file through -x265-params. */
+function passArgs(format: OutputFormat, pass: 1 | 2, passLog: string): string[] {
+  if (format === 'mp4-hevc') return ['-x265-params', `pass=${pass}:stats=${passLog}.log`];
+  return ['-pass', String(pass), '-passlogfile', passLog];
+}
+
+/** Output size of an animated preview: PREVIEW_WIDTH (or less) wide, target aspect, even height. */
+export function previewDimensions(options: ProcessOptions): { width: number; height: number } {
+  const width = Math.min(PREVIEW_WIDTH, options.targetWidth);
+  const height = Math.max(2, Math.round((width * options.targetHeight) / options.targetWidth / 2) * 2);
+  return { width, height };
+}
+
+/**
+ * [input] -> short animated preview [output]: fps and width capped (PREVIEW_FPS / PREVIEW_WIDTH);
+ * gif gets a per-clip palette.
+ */
+function buildPreviewFilter(input: string, output: string, format: OutputFormat, options: ProcessOptions): string {
+  const fps = Math.min(PREVIEW_FPS, options.encoding.maxFps ?? PREVIEW_FPS);
+  const { width, height } = previewDimensions(options);
+  const scaled = `[${input}]fps=${fps},scale=${width}:${height}:flags=lanczos`;
+  if (format !== 'gif') return `${scaled}[${output}]`;
+  return `${scaled},split[pvsrc][pvpal];[pvpal]palettegen=stats_mode=diff[palette];`
+    + `[pvsrc][palette]paletteuse=dither=bayer:bayer_scale=5[${output}]`;
+}
+
+/**
+ * Copy the first video and audio stream of an unconverted source into the format's container
+ * (caller checks canRemux). No re-encode.
+ */
+export async function remuxFile(
+  inputPath: string,
+  outputPath: string,
+  format: OutputFormat,
+  signal?: AbortSignal,
+): Promise<void> {
+  const outPath = safePath(outputPath);
+  const args = ['-y', '-i', safePath(inputPath), '-map', '0:v:0', '-map', '0:a:0?', '-c', 'copy'];
+  if (format === 'mp4-hevc') args.push('-tag:v', 'hvc1');
+  if (OUTPUT_FORMATS[format].ext === '.mp4') args.push('-movflags', '+faststart');
+  args.push(outPath);
+  await runFfmpeg(args, { signal });
+  if (!fs.existsSync(outPath)) {
+    throw new Error('ffmpeg completed but output file missing');
+  }
+}
+
+/**
+ * Average video bitrate for a two-pass encode that lands under encoding.targetSizeMB for
+ * durationSec of output, after audio and ~3% container overhead; capped at maxBitrateKbps.
+ * Throws INVALID_OPTIONS when less than MIN_TARGET_VIDEO_KBPS would be left for video.
+ */
+export function targetVideoBitrateKbps(encoding: EncodingOptions, durationSec: number, hasAudio: boolean): number {
+  const sizeMB = encoding.targetSizeMB ?? 0;
+  const totalKbps = (sizeMB * 8 * 1024 * 1024 * TARGET_SIZE_MARGIN) / 1000 / Math.max(durationSec, 0.1);
+  const videoKbps = Math.floor(totalKbps - (hasAudio ? encoding.audioBitrateKbps : 0));
+  if (videoKbps < MIN_TARGET_VIDEO_KBPS) {
+    throw new Error(
+      `INVALID_OPTIONS: targetSizeMB ${sizeMB} is too small for ${Math.round(durationSec * 10) / 10}s `
+        + `(leaves ${Math.max(0, videoKbps)} kbps for video, minimum ${MIN_TARGET_VIDEO_KBPS})`,
+    );
+  }
+  return encoding.maxBitrateKbps !== null ? Math.min(videoKbps, encoding.maxBitrateKbps) : videoKbps;
+}
+
+/**
+ * Convert video to Shorts format (1080x1920). Writes to outputPath (extension must match the format).
+ * mode: 'pad' | 'blur' | 'crop' | 'auto'
+ * ctx.segment: optional source window (input seek + output duration) for trim / split.
+ * ctx.signal: abort kills ffmpeg and rejects with 'ffmpeg cancelled'.
+ * ctx.onProgress: runs ffmpeg with -progress pipe:1 and reports percent / speed / ETA.
+ * ctx.watermarkPath: logo overlaid after reframing (options.watermark).
+ * ctx.musicPath: background music mixed under the audio (options.music; the only track when !ctx.hasAudio).
+ * ctx.subtitlesPath: ASS file burned in on top.
+ * options.outputFormat: container / codecs (default MP4 H.264 + AAC); gif / webp render a silent preview.
+ * options.encoding: encoder settings (see buildVideoEncoderArgs).
+ * ctx.videoBitrateKbps: two-pass encode at this bitrate instead of CRF (targetSizeMB).
+ * ctx.loudness: first-pass measurement; the audio gets the second loudnorm pass.
+ * Resolves with ffmpeg stderr (the second pass reports the normalized levels there).
+ */
+export async function convertToShorts(
+  inputPath: string,
+  outputPath: string,
+  options: ProcessOptions,
+  ctx: ConvertContext = {},
+): Promise<string> {
+  const { segment, signal, onProgress } = ctx;
+  const expectedDurationSec = segment?.durationSec ?? ctx.durationSec ?? 0;
+  const inPath = safePath(inputPath);
+  const outPath = safePath(outputPath);
+  const format = options.outputFormat ?? 'mp4-h264';
+  const spec = OUTPUT_FORMATS[format];
+
+  const args: string[] = ['-y'];
+  if (onProgress) args.push('-nostats', '-progress', 'pipe:1');
+  if (segment) args.push('-ss', String(segment.startSec));
+  args.push('-i', inPath);
+  let nextInput = 1;
+  const watermarkInput = ctx.watermarkPath ? nextInput++ : -1;
+  if (ctx.watermarkPath) args.push('-i', safePath(ctx.watermarkPath));
+  const musicInput = ctx.musicPath && !spec.animated ? nextInput++ : -1;
+  if (musicInput >= 0) {
+    if (options.music.loop) args.push('-stream_loop', '-1');
+    args.push('-i', safePath(ctx.musicPath as string));
+  }
+  if (segment) args.push('-t', String(segment.durationSec));
+
+  // video chain: reframe -> (watermark) -> (captions); each stage consumes the previous label
+  const graph: string[] = [];
+  let v = 'framed';
+  graph.push(buildReframeFilter('0:v', v, options, {
+    crop: ctx.crop,
+    autoPath: ctx.autoPath,
+    startSec: segment?.startSec ?? 0,
+    sampleAspectRatio: ctx.sampleAspectRatio,
+  }));
+  if (watermarkInput >= 0) {
+    graph.push(buildWatermarkFilter(`${watermarkInput}:v`, v, 'branded', options, segment?.startSec ?? 0));
+    v = 'branded';
+  }
+  if (ctx.subtitlesPath) {
+    graph.push(`[${v}]subtitles=filename=${escapeFilterValue(safePath(ctx.subtitlesPath))}[captioned]`);
+    v = 'captioned';
+  }
+  if (spec.animated) {
+    graph.push(buildPreviewFilter(v, 'preview', format, options));
+    v = 'preview';
+  }
+  const videoGraph = graph.join(';');
+  let audioMap = '0:a?';
+  if (ctx.loudness && !ctx.loudness.silent) {
+    graph.push(`[0:a]${buildLoudnormFilter(options, ctx.loudness)}[normalized]`);
+    audioMap = '[normalized]';
+  }
+  if (musicInput >= 0) {
+    const voice = ctx.hasAudio === false ? null : audioMap === '0:a?' ? '0:a' : 'normalized';
+    graph.push(buildMusicFilter(`${musicInput}:a`, voice, 'mixed', options, expectedDurationSec));
+    audioMap = '[mixed]';
+  }
+  const encoderArgs = buildVideoEncoderArgs(format, options.encoding, ctx.videoBitrateKbps);
+  const audioArgs = spec.animated
+    ? ['-an']
+    : ['-map', audioMap, '-c:a', format === 'webm-vp9' ? 'libopus' : 'aac', '-b:a', `${options.encoding.audioBitrateKbps}k`];
+  const containerArgs = spec.animated
+    ? ['-loop', '0']
+    : spec.ext === '.mp4' ? ['-movflags', '+faststart'] : [];
+
+  const startedAt = Date.now();
+  // two-pass: pass 1 (video only, stats to passlogfile) covers 0-50%, pass 2 50-100%
+  const twoPass = ctx.videoBitrateKbps !== undefined;
+  const progressFor = (pass: number) => onProgress && createProgressParser((values) => {
+    const p = toConversionProgress(values, expectedDurationSec, startedAt);
+    if (!twoPass) {
+      onProgress(p);
+    } else {
+      onProgress({
+        ...p,
+        percent: Math.round((pass === 1 ? p.percent / 2 : 50 + p.percent / 2) * 10) / 10,
+        etaSec: pass === 1 ? null : p.etaSec,
+      });
+    }
+  });
+  const passLog = path.join(path.dirname(outPath), `${path.basename(outPath, path.extname(outPath))}_pass`);
+
+  if (twoPass) {
+    await runFfmpeg([
+      ...args,
+      '-filter_complex', videoGraph,
+      '-map', `[${v}]`,
+      ...encoderArgs,
+      ...passArgs(format, 1, passLog),
+      '-an', '-f', 'null', '-',
+    ], { signal, onStdout: progressFor(1) });
+  }
+  const stderr = await runFfmpeg([
+    ...args,
+    '-filter_complex', graph.join(';'),
+    '-map', `[${v}]`,
+    ...encoderArgs,
+    ...(twoPass ? passArgs(format, 2, passLog) : []),
+    ...audioArgs,
+    ...containerArgs,
+    '-shortest',
+    outPath,
+  ], { signal, onStdout: progressFor(2) });
+  if (!fs.existsSync(outPath)) {
+    throw new Error('ffmpeg completed but output file missing');
+  }
+  return stderr;
+}
@@ -3,20 +3,45 @@
  */
 
 import { spawn } from 'child_process';
+import * as fs from 'fs';
 import * as path from 'path';
-import type { VideoMetadata } from '../types';
+import { FFPROBE_TIMEOUT_SEC_DEFAULT, type VideoMetadata } from '../types';
+import { recordToolFailure } from './metrics';
+import { registerProcess } from './processes';
 
 const FFPROBE = 'ffprobe';
 
+function getFfprobeTimeoutSec(): number {
+  const raw = process.env.FFPROBE_TIMEOUT_SEC;
+  if (raw === undefined || raw === '') return FFPROBE_TIMEOUT_SEC_DEFAULT;
+  const n = parseInt(raw, 10);
+  if (!Number.isFinite(n) || n < 5) return FFPROBE_TIMEOUT_SEC_DEFAULT;
+  return Math.min(n, 600);
+}
+
 interface FFprobeStream {
   codec_type: string;
+  codec_name?: string;
   width?: number;
   height?: number;
   duration?: string;
+  sample_aspect_ratio?: string;
+  avg_frame_rate?: string;
+  r_frame_rate?: string;
+  pix_fmt?: string;
+  color_transfer?: string;
+  sample_rate?: string;
+  channels?: number;
+  tags?: { rotate?: string };
+  side_data_list?: { rotation?: number | string }[];
+  disposition?: { attached_pic?: number };
 }
 
 interface FFprobeFormat {
   duration?: string;
+  format_name?: string;
+  bit_rate?: string;
+  size?: string;
 }
 
 interface FFprobeOutput {
@@ -41,35 +66,109 @@ function safePath(input: string): string {
   return resolved;
 }
 
+/** Transfer characteristics that mean HDR (PQ, HLG). */
+const HDR_TRANSFERS = new Set(['smpte2084', 'arib-std-b67']);
+
+/** "30000/1001" or "16:9" -> number; 0 for missing / "0/0" / "N/A". */
+function parseRatio(value: string | undefined): number {
+  if (!value) return 0;
+  const [num, den] = value.split(/[/:]/).map(Number);
+  if (!Number.isFinite(num) || !Number.isFinite(den) || num <= 0 || den <= 0) return 0;
+  return num / den;
+}
+
+/** Optional numeric field ("48000", "N/A") -> number or null. */
+function parseOptionalNumber(value: string | number | undefined): number | null {
+  const n = Number(value);
+  return value !== undefined && Number.isFinite(n) && n > 0 ? n : null;
+}
+
+/**
+ * Clockwise display rotation, snapped to 0 / 90 / 180 / 270. The display matrix
+ * (side data) reports a counter-clockwise angle; the legacy rotate tag a clockwise one.
+ */
+function streamRotation(stream: FFprobeStream): number {
+  const matrix = stream.side_data_list?.find((sd) => sd.rotation !== undefined);
+  let degrees = 0;
+  if (matrix) {
+    degrees = -Number(matrix.rotation);
+  } else if (stream.tags?.rotate) {
+    degrees = Number(stream.tags.rotate);
+  }
+  if (!Number.isFinite(degrees)) return 0;
+  return ((Math.round(degrees / 90) * 90) % 360 + 360) % 360;
+}
+
 /**
- * Run ffprobe -v error -show_entries stream=width,height,duration,codec_type
- * -show_entries format=duration -of json on file.
- * Returns { width, height, durationSec, aspectRatio, hasAudio }.
+ * Run ffprobe -v error -show_entries (stream, rotation, disposition, format fields) -of json on file.
+ * Uses the first video stream that is not cover art and the first audio stream.
+ * width / height are display dimensions: sample aspect ratio applied, swapped for 90 / 270 rotation.
+ * Killed after FFPROBE_TIMEOUT_SEC (a stalled read of a broken file) or when signal aborts.
  */
-export function getVideoMetadata(filePath: string): Promise<VideoMetadata> {
+export function getVideoMetadata(filePath: string, signal?: AbortSignal): Promise<VideoMetadata> {
   const safe = safePath(filePath);
   return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('ffprobe cancelled'));
+      return;
+    }
     const args = [
       '-v', 'error',
-      '-show_entries', 'stream=width,height,duration,codec_type',
-      '-show_entries', 'format=duration',
+      '-show_entries', [
+        'stream=codec_type,codec_name,width,height,duration,sample_aspect_ratio,avg_frame_rate,'
+          + 'r_frame_rate,pix_fmt,color_transfer,sample_rate,channels',
+        'stream_tags=rotate',
+        'stream_side_data=rotation',
+        'stream_disposition=attached_pic',
+        'format=duration,format_name,bit_rate,size',
+      ].join(':'),
       '-of', 'json',
       '-i', safe,
     ];
     const proc = spawn(FFPROBE, args, { stdio: ['ignore', 'pipe', 'pipe'] });
-
     let stdout = '';
     let stderr = '';
+    let stopped = false;
+    /** Kill ffprobe early (timeout, abort, shutdown) and reject with err. */
+    const stop = (err: Error): void => {
+      if (stopped) return;
+      stopped = true;
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
+      proc.kill('SIGKILL');
+      reject(err);
+    };
+    const timeoutSec = getFfprobeTimeoutSec();
+    const timeoutId = setTimeout(() => {
+      recordToolFailure('ffprobe', 'timeout');
+      stop(new Error(`ffprobe timeout after ${timeoutSec}s`));
+    }, timeoutSec * 1000);
+    const onAbort = (): void => stop(new Error('ffprobe cancelled'));
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const unregister = registerProcess('ffprobe', () => {
+      stop(new Error('SHUTTING_DOWN: ffprobe stopped, the server is shutting down'));
+    });
 
     proc.stdout?.on('data', (chunk: Buffer) => { stdout += chunk.toString(); });
     proc.stderr?.on('data', (chunk: Buffer) => { stderr += chunk.toString(); });
 
+    const settle = (): boolean => {
+      unregister();
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
+      return !stopped;
+    };
+
     proc.on('error', (err) => {
+      if (!settle()) return;
+      recordToolFailure('ffprobe', 'error');
       reject(new Error(`ffprobe spawn failed: ${(err as Error).message}`));
     });
 
     proc.on('close', (code) => {
+      if (!settle()) return;
       if (code !== 0) {
+        recordToolFailure('ffprobe', 'error');
         reject(new Error(`ffprobe exited with code ${code}. stderr: ${stderr}`));
         return;
       }
@@ -78,36 +177,58 @@ export function getVideoMetadata(filePath: string): Promise<VideoMetadata> {
         const streams = json.streams ?? [];
         const format = json.format ?? {};
 
-        let width = 0;
-        let height = 0;
-        let durationSec = 0;
-        let hasAudio = false;
-
-        for (const s of streams) {
-          if (s.codec_type === 'video') {
-            width = s.width ?? 0;
-            height = s.height ?? 0;
-            const d = s.duration ?? format.duration;
-            if (d) durationSec = parseFloat(d);
-          }
-          if (s.codec_type === 'audio') hasAudio = true;
-        }
+        const video = streams.find((s) => s.codec_type === 'video' && !s.disposition?.attached_pic);
+        const audio = streams.find((s) => s.codec_type === 'audio');
 
-        if (!width || !height) {
+        const codedWidth = video?.width ?? 0;
+        const codedHeight = video?.height ?? 0;
+        if (!video || !codedWidth || !codedHeight) {
           reject(new Error('ffprobe: no video stream or missing width/height'));
           return;
         }
-        if (durationSec <= 0 && format.duration) {
+
+        let durationSec = 0;
+        const d = video.duration ?? format.duration;
+        if (d) durationSec = parseFloat(d);
+        if (!(durationSec > 0) && format.duration) {
           durationSec = parseFloat(format.duration);
         }
 
+        const rotation = streamRotation(video);
+        const sampleAspectRatio = parseRatio(video.sample_aspect_ratio) || 1;
+        // same rounding as the reframe filter's square-pixel scale (even width)
+        const squaredWidth = sampleAspectRatio === 1
+          ? codedWidth
+          : Math.trunc((codedWidth * sampleAspectRatio) / 2) * 2;
+        const sideways = rotation === 90 || rotation === 270;
+        const width = sideways ? codedHeight : squaredWidth;
+        const height = sideways ? squaredWidth : codedHeight;
+        const colorTransfer = video.color_transfer && video.color_transfer !== 'unknown'
+          ? video.color_transfer
+          : null;
+
         const aspectRatio = height > 0 ? width / height : 0;
         resolve({
           width,
           height,
           durationSec,
           aspectRatio,
-          hasAudio,
+          hasAudio: audio !== undefined,
+          codedWidth,
+          codedHeight,
+          rotation,
+          sampleAspectRatio,
+          container: format.format_name ?? 'unknown',
+          videoCodec: video.codec_name ?? 'unknown',
+          audioCodec: audio ? audio.codec_name ?? 'unknown' : null,
+          fps: Math.round((parseRatio(video.avg_frame_rate) || parseRatio(video.r_frame_rate)) * 1000) / 1000,
+          bitrate: parseOptionalNumber(format.bit_rate),
+          pixelFormat: video.pix_fmt ?? null,
+          colorTransfer,
+          hdr: colorTransfer !== null && HDR_TRANSFERS.has(colorTransfer),
+          audioSampleRate: parseOptionalNumber(audio?.sample_rate),
+          audioChannels: parseOptionalNumber(audio?.channels),
+          sizeBytes: parseOptionalNumber(format.size) ?? fs.statSync(safe).size,
         });
       } catch (e) {
         reject(new Error(`ffprobe: failed to parse JSON: ${(e as Error).message}`));
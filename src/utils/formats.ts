@@ -0,0 +1,66 @@
+/**
+ * Output formats (outputFormat option): container, codecs, MIME type and extension, and
+ * whether an unconverted source can be remuxed into the format without re-encoding.
+ */
+
+import * as path from 'path';
+import type { OutputFormat, VideoMetadata } from '../types';
+
+export interface OutputFormatSpec {
+  ext: string;
+  contentType: string;
+  /** Source codecs (ffprobe names) that can be copied into this container. Empty: always encode. */
+  copyVideoCodecs: string[];
+  copyAudioCodecs: string[];
+  /** Animated image preview: no audio, short window, small size. */
+  animated: boolean;
+}
+
+export const OUTPUT_FORMATS: Record<OutputFormat, OutputFormatSpec> = {
+  'mp4-h264': {
+    ext: '.mp4',
+    contentType: 'video/mp4',
+    copyVideoCodecs: ['h264'],
+    copyAudioCodecs: ['aac', 'mp3'],
+    animated: false,
+  },
+  'mp4-hevc': {
+    ext: '.mp4',
+    contentType: 'video/mp4',
+    copyVideoCodecs: ['hevc'],
+    copyAudioCodecs: ['aac', 'mp3'],
+    animated: false,
+  },
+  'webm-vp9': {
+    ext: '.webm',
+    contentType: 'video/webm',
+    copyVideoCodecs: ['vp9'],
+    copyAudioCodecs: ['opus', 'vorbis'],
+    animated: false,
+  },
+  gif: { ext: '.gif', contentType: 'image/gif', copyVideoCodecs: [], copyAudioCodecs: [], animated: true },
+  webp: { ext: '.webp', contentType: 'image/webp', copyVideoCodecs: [], copyAudioCodecs: [], animated: true },
+};
+
+/** Content types for files passed through untouched, by extension. */
+const PASSTHROUGH_TYPES: Record<string, string> = {
+  '.mp4': 'video/mp4',
+  '.m4v': 'video/x-m4v',
+  '.mov': 'video/quicktime',
+  '.webm': 'video/webm',
+  '.mkv': 'video/x-matroska',
+  '.avi': 'video/x-msvideo',
+  '.3gp': 'video/3gpp',
+};
+
+/** Source streams can be copied into the format's container as-is. */
+export function canRemux(meta: VideoMetadata, format: OutputFormat): boolean {
+  const spec = OUTPUT_FORMATS[format];
+  return spec.copyVideoCodecs.includes(meta.videoCodec)
+    && (meta.audioCodec === null || spec.copyAudioCodecs.includes(meta.audioCodec));
+}
+
+/** Content type for an unmodified upload, from its file extension (video/mp4 when unknown). */
+export function passthroughContentType(filename: string): string {
+  return PASSTHROUGH_TYPES[path.extname(filename).toLowerCase()] ?? 'video/mp4';
+}
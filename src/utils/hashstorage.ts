@@ -0,0 +1,70 @@
+/**
+ * Multer storage engine: multer.diskStorage plus a SHA-256 of the bytes, computed while the
+ * upload is written (no second read). The digest is set as file.sha256 for the result cache.
+ */
+
+import * as crypto from 'crypto';
+import type { Request } from 'express';
+import * as fs from 'fs';
+import type multer from 'multer';
+import * as path from 'path';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+
+/** An upload stored by hashingDiskStorage (or a sourceUrl download). */
+export interface HashedFile extends Express.Multer.File {
+  /** Hex SHA-256 of the file contents. */
+  sha256?: string;
+}
+
+type NameCallback = (error: Error | null, value: string) => void;
+
+export interface HashingDiskStorageOptions {
+  destination(req: Request, file: Express.Multer.File, cb: NameCallback): void;
+  filename(req: Request, file: Express.Multer.File, cb: NameCallback): void;
+}
+
+/** SHA-256 of a stored upload, if it was hashed. */
+export function fileSha256(file: Express.Multer.File | undefined): string | undefined {
+  return (file as HashedFile | undefined)?.sha256;
+}
+
+/** Pass-through stream that feeds every chunk into hash. */
+export function hashingTransform(hash: crypto.Hash): Transform {
+  return new Transform({
+    transform(chunk: Buffer, _enc, cb) {
+      hash.update(chunk);
+      cb(null, chunk);
+    },
+  });
+}
+
+function resolveName(
+  fn: HashingDiskStorageOptions['destination'],
+  req: Request,
+  file: Express.Multer.File,
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    fn(req, file, (err, value) => (err ? reject(err) : resolve(value)));
+  });
+}
+
+export function hashingDiskStorage(options: HashingDiskStorageOptions): multer.StorageEngine {
+  return {
+    _handleFile(req, file, cb) {
+      void (async () => {
+        const destination = await resolveName(options.destination, req, file);
+        const filename = await resolveName(options.filename, req, file);
+        const filePath = path.join(destination, filename);
+        const hash = crypto.createHash('sha256');
+        await pipeline(file.stream, hashingTransform(hash), fs.createWriteStream(filePath));
+        const { size } = await fs.promises.stat(filePath);
+        const info: Partial<HashedFile> = { destination, filename, path: filePath, size, sha256: hash.digest('hex') };
+        return info;
+      })().then((info) => cb(null, info), (err) => cb(err));
+    },
+    _removeFile(_req, file, cb) {
+      fs.unlink(file.path, (err) => cb(err && err.code !== 'ENOENT' ? err : null));
+    },
+  };
+}
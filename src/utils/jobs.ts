@@ -0,0 +1,283 @@
+/**
+ * In-memory job queue for the async API: bounded worker pool + result TTL.
+ * The JOB_CONCURRENCY slots are shared with synchronous conversions (acquireConversionSlot), so
+ * at most that many conversions run at once overall; waiters are served in arrival order.
+ * Job id = the requestId from processTmpMiddleware; the job owns its uniqueTmpDir until expiry.
+ * Env: JOB_CONCURRENCY, JOB_MAX_QUEUE, JOB_RESULT_TTL_SEC.
+ */
+
+import type { JobStatus, ProcessOptions, ShortsResult } from '../types';
+import {
+  JOB_CONCURRENCY_DEFAULT,
+  JOB_MAX_QUEUE_DEFAULT,
+  JOB_RESULT_TTL_SEC_DEFAULT,
+} from '../types';
+import { type ErrorResponse, toErrorResponse } from './errors';
+import { log } from './logger';
+import { type PipelineInput, runShortsPipeline } from './pipeline';
+import { publishProgress } from './progress';
+import { holdTmpDir, rmDirRecursive } from './tmp';
+import type { CallbackDelivery } from './webhook';
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+export interface Job {
+  id: string;
+  status: JobStatus;
+  input: PipelineInput;
+  options: ProcessOptions;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  result?: ShortsResult;
+  error?: ErrorResponse;
+  controller: AbortController;
+  /** Called once when the job reaches done / failed / cancelled. */
+  onFinish?: (job: Job) => void;
+  /** API key name that created the job; only that key can see it. */
+  owner?: string;
+  /** callbackUrl delivery state, when the job has a webhook. */
+  callback?: CallbackDelivery;
+}
+
+function envInt(name: string, fallback: number, min: number, max: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return fallback;
+  const n = parseInt(raw, 10);
+  if (!Number.isFinite(n) || n < min) return fallback;
+  return Math.min(n, max);
+}
+
+const concurrency = envInt('JOB_CONCURRENCY', JOB_CONCURRENCY_DEFAULT, 1, 32);
+const maxQueue = envInt('JOB_MAX_QUEUE', JOB_MAX_QUEUE_DEFAULT, 1, 10000);
+const resultTtlMs = envInt('JOB_RESULT_TTL_SEC', JOB_RESULT_TTL_SEC_DEFAULT, 60, 7 * 24 * 3600) * 1000;
+
+const jobs = new Map<string, Job>();
+const queue: Job[] = [];
+/** Jobs converting. */
+let running = 0;
+/** Slots in use: running jobs plus synchronous conversions. */
+let busySlots = 0;
+
+interface SlotWaiter {
+  since: number;
+  grant: () => void;
+}
+
+/** Synchronous conversions waiting for a slot, oldest first. */
+const slotWaiters: SlotWaiter[] = [];
+/** Cleared at shutdown: enqueueJob refuses new jobs. */
+let accepting = true;
+
+function cleanupJobDir(job: Job): void {
+  try {
+    rmDirRecursive(job.input.tmpDir);
+  } catch {
+    /* ignore */
+  }
+}
+
+async function runJob(job: Job): Promise<void> {
+  job.status = 'running';
+  job.startedAt = Date.now();
+  publishProgress({ requestId: job.id, status: 'running' });
+  try {
+    job.result = await runShortsPipeline(job.input, job.options, {
+      signal: job.controller.signal,
+      onProgress: (p, segment, segmentCount) => {
+        publishProgress({ requestId: job.id, status: 'running', ...p, segment, segmentCount });
+      },
+    });
+    if (job.controller.signal.aborted) throw new Error('job cancelled');
+    job.status = 'done';
+    publishProgress({ requestId: job.id, status: 'done', percent: 100 });
+  } catch (e) {
+    job.error = toErrorResponse(e);
+    job.status = job.controller.signal.aborted ? 'cancelled' : 'failed';
+    job.result = undefined;
+    publishProgress({ requestId: job.id, status: job.status, error: job.error.error });
+    cleanupJobDir(job);
+  } finally {
+    job.finishedAt = Date.now();
+    const elapsed = job.finishedAt - (job.startedAt ?? job.finishedAt);
+    log[job.status === 'failed' ? 'warn' : 'info']('job finished', {
+      requestId: job.id,
+      status: job.status,
+      code: job.error?.error,
+      durationMs: elapsed,
+    });
+    job.onFinish?.(job);
+  }
+}
+
+function pump(): void {
+  while (busySlots < concurrency && (queue.length > 0 || slotWaiters.length > 0)) {
+    busySlots++;
+    const waiter = slotWaiters[0];
+    if (waiter && (queue.length === 0 || waiter.since < queue[0].createdAt)) {
+      slotWaiters.shift();
+      waiter.grant();
+      continue;
+    }
+    const job = queue.shift() as Job;
+    running++;
+    void runJob(job).finally(() => {
+      running--;
+      busySlots--;
+      pump();
+    });
+  }
+}
+
+/**
+ * Wait for a conversion slot for a synchronous conversion (/process/shorts, /compile, /thumbnail,
+ * /inspect) and resolve with its release function (safe to call twice). Rejects with QUEUE_FULL when
+ * JOB_MAX_QUEUE requests are already waiting, and with 'conversion cancelled' when signal aborts
+ * (client gone) before a slot is free.
+ */
+export function acquireConversionSlot(signal?: AbortSignal): Promise<() => void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('conversion cancelled'));
+      return;
+    }
+    if (slotWaiters.length >= maxQueue) {
+      reject(new Error('QUEUE_FULL'));
+      return;
+    }
+    const onAbort = () => {
+      const idx = slotWaiters.indexOf(waiter);
+      if (idx >= 0) slotWaiters.splice(idx, 1);
+      reject(new Error('conversion cancelled'));
+    };
+    const waiter: SlotWaiter = {
+      since: Date.now(),
+      grant: () => {
+        signal?.removeEventListener('abort', onAbort);
+        let released = false;
+        resolve(() => {
+          if (released) return;
+          released = true;
+          busySlots--;
+          pump();
+        });
+      },
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    slotWaiters.push(waiter);
+    pump();
+  });
+}
+
+/**
+ * Queue a job. Throws QUEUE_FULL when JOB_MAX_QUEUE jobs are already waiting.
+ * onFinish runs once the job is done, failed or cancelled.
+ */
+export function enqueueJob(
+  id: string,
+  input: PipelineInput,
+  options: ProcessOptions,
+  onFinish?: (job: Job) => void,
+): Job {
+  if (!accepting) {
+    throw new Error('SHUTTING_DOWN: the server is shutting down; retry shortly');
+  }
+  if (queue.length >= maxQueue) {
+    throw new Error('QUEUE_FULL');
+  }
+  const job: Job = {
+    id,
+    status: 'queued',
+    input,
+    options,
+    createdAt: Date.now(),
+    controller: new AbortController(),
+    onFinish,
+  };
+  // outlives the request; held until cleanupJobDir deletes it
+  holdTmpDir(input.tmpDir);
+  jobs.set(id, job);
+  queue.push(job);
+  publishProgress({ requestId: id, status: 'queued' });
+  pump();
+  return job;
+}
+
+export function getJob(id: string): Job | undefined {
+  return jobs.get(id);
+}
+
+/** Take a job that never started out of the queue and finish it with err. */
+function endQueuedJob(job: Job, status: 'cancelled' | 'failed', err: Error): void {
+  const idx = queue.indexOf(job);
+  if (idx >= 0) queue.splice(idx, 1);
+  job.controller.abort();
+  job.status = status;
+  job.error = toErrorResponse(err);
+  job.finishedAt = Date.now();
+  publishProgress({ requestId: job.id, status, error: job.error.error });
+  cleanupJobDir(job);
+  job.onFinish?.(job);
+}
+
+/**
+ * Shutdown: refuse new jobs and fail the queued ones with SHUTTING_DOWN (they would not start
+ * within the grace period); running jobs carry on.
+ */
+export function stopAcceptingJobs(): void {
+  accepting = false;
+  for (const job of [...queue]) {
+    endQueuedJob(job, 'failed', new Error('SHUTTING_DOWN: the server shut down before the job started; submit it again'));
+  }
+}
+
+export function runningJobCount(): number {
+  return running;
+}
+
+/**
+ * Cancel a queued or running job (running ffmpeg is killed via the abort signal).
+ * Returns false if the job was already finished.
+ */
+export function cancelJob(job: Job): boolean {
+  if (job.status === 'queued') {
+    endQueuedJob(job, 'cancelled', new Error('job cancelled'));
+    return true;
+  }
+  if (job.status === 'running') {
+    job.controller.abort();
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Forget a finished job and delete its tmp dir (result included).
+ */
+export function removeJob(job: Job): void {
+  jobs.delete(job.id);
+  cleanupJobDir(job);
+}
+
+/** Queue position (1-based) for a queued job, else undefined. */
+export function queuePosition(job: Job): number | undefined {
+  const idx = queue.indexOf(job);
+  return idx >= 0 ? idx + 1 : undefined;
+}
+
+/** When a finished job's result will be deleted (epoch ms). */
+export function expiresAt(job: Job): number | undefined {
+  return job.finishedAt !== undefined ? job.finishedAt + resultTtlMs : undefined;
+}
+
+function sweepExpired(): void {
+  const now = Date.now();
+  for (const job of jobs.values()) {
+    const exp = expiresAt(job);
+    if (exp !== undefined && exp <= now) {
+      removeJob(job);
+    }
+  }
+}
+
+setInterval(sweepExpired, SWEEP_INTERVAL_MS).unref();
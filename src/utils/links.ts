@@ -0,0 +1,39 @@
+/**
+ * Time-limited download links: `<path>?expires=<unix sec>&signature=<hmac>` signed with
+ * DOWNLOAD_URL_SECRET (random per process when unset, so links die with a restart).
+ * Absolute URLs use PUBLIC_BASE_URL, else the base URL of the request that created the link.
+ */
+
+import * as crypto from 'crypto';
+import type { Request } from 'express';
+
+const secret = process.env.DOWNLOAD_URL_SECRET || crypto.randomBytes(32).toString('hex');
+
+export type LinkCheck = 'valid' | 'expired' | 'invalid';
+
+function sign(pathname: string, expires: number): string {
+  return crypto.createHmac('sha256', secret).update(`${pathname}\n${expires}`).digest('hex');
+}
+
+/** Base URL for absolute links: PUBLIC_BASE_URL, or scheme + Host of the request. */
+export function publicBaseUrl(req: Request): string {
+  const configured = process.env.PUBLIC_BASE_URL;
+  if (configured) return configured.replace(/\/+$/, '');
+  return `${req.protocol}://${req.get('host') ?? 'localhost'}`;
+}
+
+/** Signed absolute URL for pathname, valid until expiresAtMs. */
+export function signedUrl(baseUrl: string, pathname: string, expiresAtMs: number): string {
+  const expires = Math.floor(expiresAtMs / 1000);
+  return `${baseUrl}${pathname}?expires=${expires}&signature=${sign(pathname, expires)}`;
+}
+
+/** Check the expires / signature query of a request for pathname. */
+export function checkSignedUrl(pathname: string, query: Request['query']): LinkCheck {
+  const expires = Number(query.expires);
+  const signature = typeof query.signature === 'string' ? query.signature : '';
+  if (!Number.isInteger(expires) || !/^[0-9a-f]{64}$/.test(signature)) return 'invalid';
+  const expected = Buffer.from(sign(pathname, expires), 'hex');
+  if (!crypto.timingSafeEqual(expected, Buffer.from(signature, 'hex'))) return 'invalid';
+  return expires * 1000 < Date.now() ? 'expired' : 'valid';
+}
@@ -0,0 +1,29 @@
+/**
+ * Structured logging: one JSON object per line ({time, level, msg, requestId?, ...fields}).
+ * info goes to stdout, warn / error to stderr. Pass requestId (or the job id) in fields so a
+ * request can be followed across its log lines.
+ */
+
+export type LogLevel = 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+function write(level: LogLevel, msg: string, fields: LogFields = {}): void {
+  const entry: LogFields = { time: new Date().toISOString(), level, msg };
+  for (const [name, value] of Object.entries(fields)) {
+    if (value === undefined) continue;
+    entry[name] = value instanceof Error ? value.message : value;
+  }
+  const line = `${JSON.stringify(entry)}\n`;
+  if (level === 'info') {
+    process.stdout.write(line);
+  } else {
+    process.stderr.write(line);
+  }
+}
+
+export const log = {
+  info: (msg: string, fields?: LogFields): void => write('info', msg, fields),
+  warn: (msg: string, fields?: LogFields): void => write('warn', msg, fields),
+  error: (msg: string, fields?: LogFields): void => write('error', msg, fields),
+};
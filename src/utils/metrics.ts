@@ -0,0 +1,184 @@
+/**
+ * Prometheus metrics, kept in memory and rendered in the text exposition format for GET /metrics.
+ * Counters and histograms are updated where the work happens; tmp and cache disk usage are
+ * measured when scraped.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { cacheStats } from './cache';
+import { freeDiskBytes } from './storage';
+import { TMP_DIR } from './tmp';
+
+type Labels = Record<string, string>;
+
+interface Counter {
+  name: string;
+  help: string;
+  /** Rendered label set (`{a="x"}`) -> value. */
+  values: Map<string, number>;
+}
+
+interface HistogramSeries {
+  /** Per bucket (same order as buckets), not cumulative. */
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+interface Histogram {
+  name: string;
+  help: string;
+  buckets: number[];
+  series: Map<string, HistogramSeries>;
+}
+
+/** Conversion wall time buckets (seconds): short remuxes up to long two-pass encodes. */
+const CONVERSION_BUCKETS = [1, 2.5, 5, 10, 30, 60, 120, 300, 600, 1800];
+
+function counter(name: string, help: string): Counter {
+  return { name, help, values: new Map() };
+}
+
+const httpRequests = counter('shorts_http_requests_total', 'HTTP requests by route, method, status and error code.');
+const bytesIn = counter('shorts_bytes_in_total', 'Media bytes received, by source (upload or url).');
+const bytesOut = counter('shorts_bytes_out_total', 'Response body bytes sent.');
+const toolFailures = counter('shorts_tool_failures_total', 'ffmpeg / ffprobe runs that failed, by tool and reason (error or timeout).');
+const conversionSeconds: Histogram = {
+  name: 'shorts_conversion_duration_seconds',
+  help: 'Wall time of re-encoding pipeline runs (remux, passthrough and cache hits excluded), by rendered mode.',
+  buckets: CONVERSION_BUCKETS,
+  series: new Map(),
+};
+let conversionsInFlight = 0;
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function labelSet(labels: Labels): string {
+  const parts = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return parts.length > 0 ? `{${parts.join(',')}}` : '';
+}
+
+function inc(metric: Counter, labels: Labels, by = 1): void {
+  const key = labelSet(labels);
+  metric.values.set(key, (metric.values.get(key) ?? 0) + by);
+}
+
+/** One finished HTTP request; code is the JSON error code ('' on success). */
+export function recordHttpRequest(route: string, method: string, status: number, code: string): void {
+  inc(httpRequests, { route, method, status: String(status), code });
+}
+
+export function recordBytesIn(source: 'upload' | 'url', bytes: number): void {
+  if (bytes > 0) inc(bytesIn, { source }, bytes);
+}
+
+export function recordBytesOut(bytes: number): void {
+  if (bytes > 0) inc(bytesOut, {}, bytes);
+}
+
+export function recordToolFailure(tool: 'ffmpeg' | 'ffprobe', reason: 'error' | 'timeout'): void {
+  inc(toolFailures, { tool, reason });
+}
+
+/** Count a conversion as running; call the returned function once it ended. */
+export function trackConversion(): () => void {
+  conversionsInFlight++;
+  let done = false;
+  return () => {
+    if (done) return;
+    done = true;
+    conversionsInFlight--;
+  };
+}
+
+export function observeConversion(mode: string, seconds: number): void {
+  const key = labelSet({ mode });
+  let series = conversionSeconds.series.get(key);
+  if (!series) {
+    series = { counts: conversionSeconds.buckets.map(() => 0), sum: 0, count: 0 };
+    conversionSeconds.series.set(key, series);
+  }
+  const bucket = conversionSeconds.buckets.findIndex((le) => seconds <= le);
+  if (bucket >= 0) series.counts[bucket]++;
+  series.sum += seconds;
+  series.count++;
+}
+
+/** Bytes under dir (files only, not following links), skipping the given subtrees. */
+async function diskUsage(dir: string, skip: string[]): Promise<number> {
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(dir, { withFileTypes: true });
+  } catch {
+    // removed while walking (request finished) or not created yet
+    return 0;
+  }
+  let bytes = 0;
+  for (const entry of entries) {
+    const full = path.join(dir, entry.name);
+    if (skip.includes(full)) continue;
+    if (entry.isDirectory()) {
+      bytes += await diskUsage(full, skip);
+    } else if (entry.isFile()) {
+      try {
+        bytes += (await fs.promises.stat(full)).size;
+      } catch {
+        /* removed meanwhile */
+      }
+    }
+  }
+  return bytes;
+}
+
+function header(name: string, help: string, type: string): string[] {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+function renderCounter(metric: Counter): string[] {
+  const lines = header(metric.name, metric.help, 'counter');
+  for (const [labels, value] of metric.values) lines.push(`${metric.name}${labels} ${value}`);
+  return lines;
+}
+
+function renderGauge(name: string, help: string, value: number): string[] {
+  return [...header(name, help, 'gauge'), `${name} ${value}`];
+}
+
+function renderHistogram(metric: Histogram): string[] {
+  const lines = header(metric.name, metric.help, 'histogram');
+  for (const [labels, series] of metric.series) {
+    // `{mode="crop"}` -> `mode="crop",` so le can be appended inside the braces
+    const inner = labels ? `${labels.slice(1, -1)},` : '';
+    let cumulative = 0;
+    metric.buckets.forEach((le, i) => {
+      cumulative += series.counts[i];
+      lines.push(`${metric.name}_bucket{${inner}le="${le}"} ${cumulative}`);
+    });
+    lines.push(`${metric.name}_bucket{${inner}le="+Inf"} ${series.count}`);
+    lines.push(`${metric.name}_sum${labels} ${series.sum}`);
+    lines.push(`${metric.name}_count${labels} ${series.count}`);
+  }
+  return lines;
+}
+
+/** All metrics in the Prometheus text format (version 0.0.4). */
+export async function renderMetrics(): Promise<string> {
+  const cache = cacheStats();
+  const tmpBytes = await diskUsage(TMP_DIR, [cache.dir]);
+  const freeBytes = await freeDiskBytes().catch(() => NaN);
+  return [
+    ...renderCounter(httpRequests),
+    ...renderHistogram(conversionSeconds),
+    ...renderGauge('shorts_conversions_in_flight', 'Conversions currently running (sync requests and jobs).', conversionsInFlight),
+    ...renderCounter(bytesIn),
+    ...renderCounter(bytesOut),
+    ...renderCounter(toolFailures),
+    ...renderGauge('shorts_tmp_disk_bytes', 'Bytes of request / job files in the tmp dir, excluding the cache.', tmpBytes),
+    ...renderGauge('shorts_tmp_disk_free_bytes', 'Free bytes on the tmp filesystem (uploads need DISK_FREE_MULTIPLE x the max file size).', freeBytes),
+    ...renderGauge('shorts_cache_disk_bytes', 'Bytes held by the result / probe cache.', cache.bytes),
+    ...renderGauge('shorts_cache_entries', 'Entries in the result / probe cache.', cache.entries),
+  ].join('\n') + '\n';
+}
@@ -0,0 +1,68 @@
+/**
+ * Server-side music library for background music (musicTrack): audio files in MUSIC_DIR, listed by
+ * GET /music and picked by file name. Without MUSIC_DIR only uploaded music can be used.
+ * Env: MUSIC_DIR.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/** Extensions accepted as music, for the library and for "music" uploads. */
+export const MUSIC_EXTS = new Set(['.mp3', '.m4a', '.aac', '.wav', '.ogg', '.opus', '.flac']);
+
+const musicDir = process.env.MUSIC_DIR ? path.resolve(process.env.MUSIC_DIR) : null;
+
+/** SHA-256 of library files, reused while size and mtime are unchanged. */
+const trackHashes = new Map<string, { sizeBytes: number; mtimeMs: number; sha256: string }>();
+
+export interface MusicTrack {
+  name: string;
+  sizeBytes: number;
+}
+
+export function musicLibraryEnabled(): boolean {
+  return musicDir !== null;
+}
+
+/** Library tracks sorted by name; empty without MUSIC_DIR or when it cannot be read. */
+export function listMusicTracks(): MusicTrack[] {
+  if (!musicDir) return [];
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(musicDir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  return entries
+    .filter((e) => e.isFile() && !e.name.startsWith('.') && MUSIC_EXTS.has(path.extname(e.name).toLowerCase()))
+    .map((e) => ({ name: e.name, sizeBytes: fs.statSync(path.join(musicDir, e.name)).size }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Absolute path of a library track; INVALID_OPTIONS when there is no such track. */
+export function resolveMusicTrack(name: string): string {
+  if (!musicDir) {
+    throw new Error('INVALID_OPTIONS: musicTrack needs a music library (MUSIC_DIR); upload "music" instead');
+  }
+  const file = path.join(musicDir, path.basename(name));
+  if (!MUSIC_EXTS.has(path.extname(file).toLowerCase()) || !fs.existsSync(file) || !fs.statSync(file).isFile()) {
+    throw new Error(`INVALID_OPTIONS: musicTrack "${name}" is not in the music library (see GET /music)`);
+  }
+  return file;
+}
+
+/**
+ * Hex SHA-256 of a resolved library track, so the result cache notices a replaced or edited file.
+ * Rehashed only when its size or mtime changes; reading stops when signal aborts.
+ */
+export async function musicTrackSha256(file: string, signal?: AbortSignal): Promise<string> {
+  const { size, mtimeMs } = fs.statSync(file);
+  const known = trackHashes.get(file);
+  if (known && known.sizeBytes === size && known.mtimeMs === mtimeMs) return known.sha256;
+  const hash = crypto.createHash('sha256');
+  for await (const chunk of fs.createReadStream(file, { signal })) hash.update(chunk as Buffer);
+  const sha256 = hash.digest('hex');
+  trackHashes.set(file, { sizeBytes: size, mtimeMs, sha256 });
+  return sha256;
+}
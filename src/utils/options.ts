@@ -0,0 +1,339 @@
+/**
+ * Request option parsing: multipart / JSON body fields -> ProcessOptions with defaults and bounds.
+ */
+
+import * as path from 'path';
+import {
+  type CaptionStyle,
+  type ClipSpec,
+  type CompileOptions,
+  type ConversionMode,
+  DEFAULT_COMPILE_OPTIONS,
+  DEFAULT_PROCESS_OPTIONS,
+  DEFAULT_PROFILE,
+  DEFAULT_PROFILE_MAX_DURATION_CAP_SEC,
+  DEFAULT_THUMBNAIL_OPTIONS,
+  type ImageFormat,
+  type DurationStrategy,
+  type EncodingOptions,
+  type H264Profile,
+  MAX_COMPILE_CLIPS,
+  type MusicOptions,
+  type OutputFormat,
+  type PlatformProfile,
+  type ProcessOptions,
+  type ThumbnailFraming,
+  type ThumbnailOptions,
+  type ThumbnailSelect,
+  type WatermarkOptions,
+  type WatermarkPosition,
+  type X264Preset,
+} from '../types';
+import { resolveProfile } from './profiles';
+
+/** Number from a form / JSON field, or fallback when missing or not numeric (0 is kept). */
+function numberField(value: unknown, fallback: number): number {
+  if (value === undefined || value === null || value === '') return fallback;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+/** Non-negative integer field, or null when missing / invalid. */
+function optionalPixelField(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  const n = Number(value);
+  return Number.isFinite(n) && n >= 0 ? Math.round(n) : null;
+}
+
+/** #RRGGBB (or RRGGBB) color field, normalized to upper-case #RRGGBB. */
+function colorField(value: unknown, fallback: string): string {
+  if (typeof value !== 'string') return fallback;
+  const m = /^#?([0-9a-fA-F]{6})$/.exec(value.trim());
+  return m ? `#${m[1].toUpperCase()}` : fallback;
+}
+
+function parseCaptionStyle(body: Record<string, unknown>): CaptionStyle {
+  const d = DEFAULT_PROCESS_OPTIONS.captionStyle;
+  const positionRaw = body.captionPosition;
+  const position = positionRaw === undefined || positionRaw === '' || positionRaw === 'auto'
+    ? null
+    : Math.max(0, Math.min(1, numberField(positionRaw, 0.7)));
+  return {
+    fontSize: Math.max(12, Math.min(200, Math.round(numberField(body.captionFontSize, d.fontSize)))),
+    color: colorField(body.captionColor, d.color),
+    outlineColor: colorField(body.captionOutlineColor, d.outlineColor),
+    outline: Math.max(0, Math.min(20, numberField(body.captionOutline, d.outline))),
+    position,
+    maxLineChars: Math.max(8, Math.min(80, Math.round(numberField(body.captionMaxLineChars, d.maxLineChars)))),
+  };
+}
+
+const WATERMARK_POSITIONS: WatermarkPosition[] = ['top-left', 'top-right', 'bottom-left', 'bottom-right', 'center'];
+
+/** Non-negative seconds field, or null when missing / invalid. */
+function optionalSecondsField(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  const n = Number(value);
+  return Number.isFinite(n) && n >= 0 ? n : null;
+}
+
+function parseWatermarkOptions(body: Record<string, unknown>): WatermarkOptions {
+  const d = DEFAULT_PROCESS_OPTIONS.watermark;
+  const positionRaw = body.watermarkPosition as WatermarkPosition | undefined;
+  const position = positionRaw && WATERMARK_POSITIONS.includes(positionRaw) ? positionRaw : d.position;
+  const x = optionalPixelField(body.watermarkX);
+  const y = optionalPixelField(body.watermarkY);
+  const startSec = optionalSecondsField(body.watermarkStartSec);
+  const endSec = optionalSecondsField(body.watermarkEndSec);
+  if (startSec !== null && endSec !== null && endSec <= startSec) {
+    throw new Error('INVALID_OPTIONS: watermarkEndSec must be greater than watermarkStartSec');
+  }
+  return {
+    position,
+    // absolute placement needs both coordinates
+    x: x !== null && y !== null ? x : null,
+    y: x !== null && y !== null ? y : null,
+    margin: Math.max(0, Math.min(500, Math.round(numberField(body.watermarkMargin, d.margin)))),
+    scale: Math.max(0.01, Math.min(1, numberField(body.watermarkScale, d.scale))),
+    opacity: Math.max(0, Math.min(1, numberField(body.watermarkOpacity, d.opacity))),
+    startSec,
+    endSec,
+  };
+}
+
+function parseMusicOptions(body: Record<string, unknown>): MusicOptions {
+  const d = DEFAULT_PROCESS_OPTIONS.music;
+  const rawTrack = typeof body.musicTrack === 'string' ? body.musicTrack : '';
+  // a library file name as GET /music lists it: no directories, no hidden files
+  if (rawTrack && (path.basename(rawTrack) !== rawTrack || rawTrack.startsWith('.') || rawTrack.includes('\0'))) {
+    throw new Error('INVALID_OPTIONS: musicTrack must be a file name from GET /music');
+  }
+  return {
+    track: rawTrack || null,
+    volume: Math.max(0, Math.min(2, numberField(body.musicVolume, d.volume))),
+    fadeInSec: Math.max(0, Math.min(10, numberField(body.musicFadeInSec, d.fadeInSec))),
+    fadeOutSec: Math.max(0, Math.min(10, numberField(body.musicFadeOutSec, d.fadeOutSec))),
+    loop: body.musicLoop === undefined || body.musicLoop === ''
+      ? d.loop
+      : body.musicLoop === 'true' || body.musicLoop === true,
+    ducking: body.musicDucking === undefined || body.musicDucking === ''
+      ? d.ducking
+      : body.musicDucking === 'true' || body.musicDucking === true,
+    duckRatio: Math.max(1, Math.min(20, numberField(body.musicDuckRatio, d.duckRatio))),
+  };
+}
+
+const X264_PRESETS: X264Preset[] = [
+  'ultrafast',
+  'superfast',
+  'veryfast',
+  'faster',
+  'fast',
+  'medium',
+  'slow',
+  'slower',
+  'veryslow',
+];
+const OUTPUT_FORMATS: OutputFormat[] = ['mp4-h264', 'mp4-hevc', 'webm-vp9', 'gif', 'webp'];
+const H264_PROFILES: H264Profile[] = ['baseline', 'main', 'high'];
+const H264_LEVELS = ['3.0', '3.1', '3.2', '4.0', '4.1', '4.2', '5.0', '5.1', '5.2', '6.0', '6.1', '6.2'];
+
+/** Positive number field clamped to [min, max], or null when missing / invalid. */
+function optionalBoundedField(value: unknown, min: number, max: number): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? Math.max(min, Math.min(max, n)) : null;
+}
+
+/** Lower of a request limit and a profile limit; null only when neither sets one. */
+function tighterLimit(requested: number | null, profileLimit: number | null): number | null {
+  if (requested === null) return profileLimit;
+  if (profileLimit === null) return requested;
+  return Math.min(requested, profileLimit);
+}
+
+/** A named encoder setting from a fixed list; INVALID_OPTIONS for anything else, null when missing. */
+function listField<T extends string>(value: unknown, name: string, allowed: T[]): T | null {
+  if (value === undefined || value === null || value === '') return null;
+  const raw = String(value).toLowerCase() as T;
+  if (!allowed.includes(raw)) {
+    throw new Error(`INVALID_OPTIONS: ${name} must be one of ${allowed.join(', ')}`);
+  }
+  return raw;
+}
+
+/**
+ * Encoder fields; maxBitrateKbps / maxFps / targetSizeMB cannot exceed the profile's caps. crf is
+ * clamped to the output codec's scale (VP9 0–63, x264 / x265 0–51).
+ */
+function parseEncodingOptions(
+  body: Record<string, unknown>,
+  profile: PlatformProfile,
+  outputFormat: OutputFormat | null,
+): EncodingOptions {
+  const d = DEFAULT_PROCESS_OPTIONS.encoding;
+  const maxCrf = outputFormat === 'webm-vp9' ? 63 : 51;
+  // levels are compared as "4.0", so a bare 4 or 4.00 is accepted too
+  const levelNum = Number(body.h264Level);
+  const levelRaw = body.h264Level !== null && body.h264Level !== '' && Number.isFinite(levelNum)
+    ? levelNum.toFixed(1)
+    : body.h264Level;
+  const maxBitrateKbps = tighterLimit(
+    optionalBoundedField(body.maxBitrateKbps, 100, 100000),
+    profile.maxBitrateKbps,
+  );
+  const bufsizeRaw = optionalBoundedField(body.bufsizeKbps, 100, 200000);
+  const targetSizeMB = optionalBoundedField(body.targetSizeMB, 1, 4096);
+  return {
+    crf: Math.max(0, Math.min(maxCrf, Math.round(numberField(body.crf, d.crf)))),
+    preset: listField(body.preset, 'preset', X264_PRESETS) ?? d.preset,
+    maxBitrateKbps: maxBitrateKbps !== null ? Math.round(maxBitrateKbps) : null,
+    // a buffer only means something with a cap
+    bufsizeKbps: maxBitrateKbps === null ? null : Math.round(bufsizeRaw ?? maxBitrateKbps * 2),
+    maxFps: tighterLimit(optionalBoundedField(body.maxFps, 1, 120), profile.maxFps),
+    audioBitrateKbps: Math.max(32, Math.min(320, Math.round(numberField(body.audioBitrateKbps, d.audioBitrateKbps)))),
+    h264Profile: listField(body.h264Profile, 'h264Profile', H264_PROFILES) ?? d.h264Profile,
+    h264Level: listField(levelRaw, 'h264Level', H264_LEVELS) ?? d.h264Level,
+    targetSizeMB: targetSizeMB !== null ? tighterLimit(targetSizeMB, profile.maxFileSizeMB) : null,
+  };
+}
+
+export function parseProcessOptions(body: Record<string, unknown>): ProcessOptions {
+  const modeRaw = body.mode as string | undefined;
+  const mode: ConversionMode =
+    modeRaw === 'pad' || modeRaw === 'blur' || modeRaw === 'crop' || modeRaw === 'auto'
+      ? modeRaw
+      : DEFAULT_PROCESS_OPTIONS.mode;
+
+  const profile = resolveProfile(body.profile);
+  const targetWidth = Math.max(1, Math.min(4096, Number(body.targetWidth) || profile.targetWidth));
+  const targetHeight = Math.max(1, Math.min(4096, Number(body.targetHeight) || profile.targetHeight));
+  // a request may tighten a named profile's duration limit, not raise it; the default profile
+  // keeps the original 300s ceiling
+  const durationCap = profile.id === DEFAULT_PROFILE.id
+    ? Math.max(profile.maxDurationSec, DEFAULT_PROFILE_MAX_DURATION_CAP_SEC)
+    : profile.maxDurationSec;
+  const maxDurationSec = Math.max(1, Math.min(durationCap, Number(body.maxDurationSec) || profile.maxDurationSec));
+  const tolerance = Math.max(0.001, Math.min(0.5, numberField(body.tolerance, profile.tolerance)));
+  const forceConvert = body.forceConvert === 'true' || body.forceConvert === true;
+  const strategyRaw = body.durationStrategy as string | undefined;
+  const durationStrategy: DurationStrategy =
+    strategyRaw === 'none' || strategyRaw === 'trim' || strategyRaw === 'split'
+      ? strategyRaw
+      : DEFAULT_PROCESS_OPTIONS.durationStrategy;
+  const startOffsetSec = Math.max(0, Number(body.startOffsetSec) || DEFAULT_PROCESS_OPTIONS.startOffsetSec);
+  const focusX = Math.max(0, Math.min(1, numberField(body.focusX, DEFAULT_PROCESS_OPTIONS.focusX)));
+  const focusY = Math.max(0, Math.min(1, numberField(body.focusY, DEFAULT_PROCESS_OPTIONS.focusY)));
+  const cropX = optionalPixelField(body.cropX);
+  const cropY = optionalPixelField(body.cropY);
+  const maxUpscale = Math.max(1, Math.min(8, numberField(body.maxUpscale, DEFAULT_PROCESS_OPTIONS.maxUpscale)));
+  const formatRaw = typeof body.outputFormat === 'string' ? body.outputFormat.toLowerCase() as OutputFormat : undefined;
+  const outputFormat = formatRaw && OUTPUT_FORMATS.includes(formatRaw) ? formatRaw : DEFAULT_PROCESS_OPTIONS.outputFormat;
+  const previewSec = Math.max(1, Math.min(30, numberField(body.previewSec, DEFAULT_PROCESS_OPTIONS.previewSec)));
+  const normalizeAudio = body.normalizeAudio === 'true' || body.normalizeAudio === true;
+  const targetLufs = Math.max(-70, Math.min(-5, numberField(body.targetLufs, DEFAULT_PROCESS_OPTIONS.targetLufs)));
+  const truePeakDb = Math.max(-9, Math.min(0, numberField(body.truePeakDb, DEFAULT_PROCESS_OPTIONS.truePeakDb)));
+  const removeSilence = body.removeSilence === 'true' || body.removeSilence === true;
+  const silenceThresholdDb = Math.max(-90, Math.min(-10, numberField(body.silenceThresholdDb, DEFAULT_PROCESS_OPTIONS.silenceThresholdDb)));
+  const silenceMinSec = Math.max(0.1, Math.min(10, numberField(body.silenceMinSec, DEFAULT_PROCESS_OPTIONS.silenceMinSec)));
+  const silencePaddingSec = Math.max(0, Math.min(2, numberField(body.silencePaddingSec, DEFAULT_PROCESS_OPTIONS.silencePaddingSec)));
+
+  return {
+    profile,
+    mode,
+    targetWidth,
+    targetHeight,
+    maxDurationSec,
+    tolerance,
+    forceConvert,
+    durationStrategy,
+    startOffsetSec,
+    focusX,
+    focusY,
+    cropX,
+    cropY,
+    maxUpscale,
+    captionStyle: parseCaptionStyle(body),
+    watermark: parseWatermarkOptions(body),
+    music: parseMusicOptions(body),
+    normalizeAudio,
+    targetLufs,
+    truePeakDb,
+    removeSilence,
+    silenceThresholdDb,
+    silenceMinSec,
+    silencePaddingSec,
+    encoding: parseEncodingOptions(body, profile, outputFormat),
+    outputFormat,
+    previewSec,
+  };
+}
+
+const THUMBNAIL_SELECTS: ThumbnailSelect[] = ['timestamp', 'frames', 'best', 'grid'];
+const IMAGE_FORMATS: ImageFormat[] = ['jpeg', 'png', 'webp'];
+const THUMBNAIL_FRAMINGS: ThumbnailFraming[] = ['none', 'pad', 'blur', 'crop'];
+
+export function parseThumbnailOptions(body: Record<string, unknown>): ThumbnailOptions {
+  const d = DEFAULT_THUMBNAIL_OPTIONS;
+  const selectRaw = body.select as ThumbnailSelect | undefined;
+  const formatRaw = (body.format === 'jpg' ? 'jpeg' : body.format) as ImageFormat | undefined;
+  const framingRaw = body.framing as ThumbnailFraming | undefined;
+  return {
+    select: selectRaw && THUMBNAIL_SELECTS.includes(selectRaw) ? selectRaw : d.select,
+    timestampSec: Math.max(0, numberField(body.timestampSec, d.timestampSec)),
+    count: Math.max(1, Math.min(50, Math.round(numberField(body.count, d.count)))),
+    columns: Math.max(1, Math.min(10, Math.round(numberField(body.columns, d.columns)))),
+    rows: Math.max(1, Math.min(10, Math.round(numberField(body.rows, d.rows)))),
+    tileWidth: Math.max(64, Math.min(1080, Math.round(numberField(body.tileWidth, d.tileWidth)))),
+    format: formatRaw && IMAGE_FORMATS.includes(formatRaw) ? formatRaw : d.format,
+    framing: framingRaw && THUMBNAIL_FRAMINGS.includes(framingRaw) ? framingRaw : d.framing,
+  };
+}
+
+/** clips field: JSON array (a string in multipart forms) of `{file, inSec, outSec}`. */
+function parseClipList(value: unknown): ClipSpec[] | null {
+  if (value === undefined || value === null || value === '') return null;
+  let raw = value;
+  if (typeof value === 'string') {
+    try {
+      raw = JSON.parse(value);
+    } catch {
+      throw new Error('INVALID_OPTIONS: clips must be a JSON array of {file, inSec, outSec}');
+    }
+  }
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new Error('INVALID_OPTIONS: clips must be a non-empty JSON array of {file, inSec, outSec}');
+  }
+  if (raw.length > MAX_COMPILE_CLIPS) {
+    throw new Error(`INVALID_OPTIONS: at most ${MAX_COMPILE_CLIPS} clips per compilation`);
+  }
+  return raw.map((entry: unknown, i: number) => {
+    if (typeof entry !== 'object' || entry === null) {
+      throw new Error(`INVALID_OPTIONS: clips[${i}] must be an object`);
+    }
+    const e = entry as Record<string, unknown>;
+    // file: upload index or name; by default clip i uses upload i
+    let file: number | string = i;
+    if (typeof e.file === 'string' && e.file !== '') {
+      file = /^\d+$/.test(e.file) ? Number(e.file) : e.file;
+    } else if (typeof e.file === 'number' && Number.isInteger(e.file) && e.file >= 0) {
+      file = e.file;
+    } else if (e.file !== undefined) {
+      throw new Error(`INVALID_OPTIONS: clips[${i}].file must be an upload index or file name`);
+    }
+    return {
+      file,
+      inSec: Math.max(0, numberField(e.inSec, 0)),
+      outSec: optionalSecondsField(e.outSec),
+    };
+  });
+}
+
+export function parseCompileOptions(body: Record<string, unknown>): CompileOptions {
+  const d = DEFAULT_COMPILE_OPTIONS;
+  return {
+    clips: parseClipList(body.clips),
+    crossfadeSec: Math.max(0, Math.min(2, numberField(body.crossfadeSec, d.crossfadeSec))),
+    fps: Math.max(1, Math.min(60, numberField(body.fps, d.fps))),
+  };
+}
@@ -0,0 +1,429 @@
+/**
+ * Shorts pipeline: probe -> (cut silence) -> validate -> (trim / split) convert -> describe result.
+ * Used by POST /process/shorts and the job workers; callers own tmpDir cleanup.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type {
+  ConversionProgress,
+  ConvertContext,
+  LoudnessMeasurement,
+  ProcessOptions,
+  Segment,
+  ShortsResult,
+  SilenceRemoval,
+} from '../types';
+import { formatLevel, measureLoudness, parseLoudnorm } from './audio';
+import { analyzeAutoFrame } from './autoframe';
+import { cacheEnabled, getCachedProbe, getCachedResult, putCachedProbe, putCachedResult, resultCacheKey } from './cache';
+import { type Cue, captionLayout, parseCaptions, writeAssSubtitles } from './captions';
+import { computeCropWindow } from './crop';
+import { convertToShorts, previewDimensions, remuxFile, targetVideoBitrateKbps } from './ffmpeg';
+import { getVideoMetadata } from './ffprobe';
+import { canRemux, OUTPUT_FORMATS, passthroughContentType } from './formats';
+import { observeConversion, trackConversion } from './metrics';
+import { musicTrackSha256, resolveMusicTrack } from './music';
+import { planPreview, planSegments } from './segments';
+import { formatWindows, mapCuesToCut, removeSilence } from './silence';
+import {
+  outputPath,
+  sanitizeFilename,
+  segmentOutputPath,
+  subtitlesOutputPath,
+  zipOutputPath,
+} from './tmp';
+import { validateShorts } from './validate';
+import { zipFiles } from './zip';
+
+export interface PipelineInput {
+  /** Uploaded source file (inside tmpDir). */
+  inputPath: string;
+  /** Client-supplied name, used only for Content-Disposition. */
+  originalName: string;
+  /** Per-request tmp dir; outputs are written here. */
+  tmpDir: string;
+  /** Optional SRT / WebVTT upload to burn in (forces a re-encode). */
+  captionsPath?: string;
+  /** Optional logo image to overlay (forces a re-encode). */
+  watermarkPath?: string;
+  /** Optional background music upload; wins over options.music.track (forces a re-encode). */
+  musicPath?: string;
+  /** SHA-256 of the uploads, from hashingDiskStorage; enable the result cache. */
+  sourceSha256?: string;
+  captionsSha256?: string;
+  watermarkSha256?: string;
+  musicSha256?: string;
+}
+
+export interface PipelineContext {
+  /** Abort kills the running ffmpeg and stops before the next segment. */
+  signal?: AbortSignal;
+  /** Overall conversion progress; for split, segment (1-based) and segmentCount are set. */
+  onProgress?: (progress: ConversionProgress, segment?: number, segmentCount?: number) => void;
+}
+
+/**
+ * Run the pipeline, counted in the in-flight gauge. The wall time of re-encodes (not remux,
+ * passthrough or cache hits) goes to the per-mode duration histogram.
+ */
+export async function runShortsPipeline(
+  input: PipelineInput,
+  options: ProcessOptions,
+  ctx: PipelineContext = {},
+): Promise<ShortsResult> {
+  const done = trackConversion();
+  const start = Date.now();
+  try {
+    const result = await runPipeline(input, options, ctx);
+    if (result.converted && result.headers['X-Cache'] !== 'HIT') {
+      observeConversion(result.conversionMode, (Date.now() - start) / 1000);
+    }
+    return result;
+  } finally {
+    done();
+  }
+}
+
+async function runPipeline(
+  input: PipelineInput,
+  options: ProcessOptions,
+  ctx: PipelineContext,
+): Promise<ShortsResult> {
+  const { inputPath, tmpDir } = input;
+  const { signal, onProgress } = ctx;
+  // an unknown library track fails before any probing; a library track enters the cache key by
+  // its content, like an upload (hashed only when there is a cache to key)
+  const musicPath = input.musicPath ?? (options.music.track !== null ? resolveMusicTrack(options.music.track) : undefined);
+  const musicSha256 = input.musicPath || !musicPath || !cacheEnabled()
+    ? input.musicSha256
+    : await musicTrackSha256(musicPath, signal);
+  // same uploads + same options: serve the stored output, no probe or conversion
+  const cacheKey = resultCacheKey({ ...input, musicPath, musicSha256 }, options);
+  const cached = cacheKey ? getCachedResult(cacheKey, tmpDir, input.originalName || 'video') : null;
+  if (cached) {
+    return { ...cached, headers: { ...cached.headers, 'X-Cache': 'HIT' } };
+  }
+  let meta = getCachedProbe(input.sourceSha256)?.meta;
+  if (!meta) {
+    meta = await getVideoMetadata(inputPath, signal);
+    putCachedProbe(input.sourceSha256, { meta });
+  }
+  const sourceMeta = meta;
+  // removeSilence: everything below (validation, trim / split, reframing) works on the cut source
+  let sourcePath = inputPath;
+  let silence: SilenceRemoval | undefined;
+  if (options.removeSilence && meta.hasAudio) {
+    const cut = await removeSilence(inputPath, meta, options, tmpDir, signal);
+    silence = cut.removal;
+    if (cut.outPath) {
+      sourcePath = cut.outPath;
+      meta = await getVideoMetadata(sourcePath, signal);
+    }
+  }
+  const silenceCut = sourcePath !== inputPath;
+  // judged on the cut length; size / bitrate stay the upload's (the cut file is an intermediate)
+  const validation = validateShorts(silenceCut ? { ...sourceMeta, durationSec: meta.durationSec } : meta, options);
+  let cues: Cue[] | undefined = input.captionsPath
+    ? parseCaptions(fs.readFileSync(input.captionsPath, 'utf8'))
+    : undefined;
+  if (cues && silence && silenceCut) cues = mapCuesToCut(cues, silence.kept);
+
+  const format = options.outputFormat;
+  const spec = OUTPUT_FORMATS[format ?? 'mp4-h264'];
+  // overlays (captions, watermark), music, loudness normalization, cut silence and a format the
+  // source streams cannot be copied into only exist in a re-encode, same as forceConvert
+  const hasOverlays = cues !== undefined || input.watermarkPath !== undefined;
+  const hasMusic = musicPath !== undefined && !spec.animated;
+  const normalize = options.normalizeAudio && meta.hasAudio && !spec.animated;
+  const needsEncode = format !== null && !canRemux(meta, format);
+  const shouldConvert = options.forceConvert || !validation.shortsEligible || hasOverlays || hasMusic || normalize
+    || needsEncode || silenceCut;
+
+  let outPath: string;
+  let converted = false;
+  let finalMeta = meta;
+  let remuxed = false;
+  const segments = !shouldConvert
+    ? []
+    : spec.animated
+      ? [planPreview(meta.durationSec, options)]
+      : planSegments(meta.durationSec, options);
+  // target size: per-output video bitrate, rejecting an unreachable size before any analysis / encoding
+  const videoBitrates = shouldConvert && options.encoding.targetSizeMB !== null && !spec.animated
+    ? (segments.length > 0 ? segments.map((seg) => seg.durationSec) : [meta.durationSec])
+      .map((durationSec) => targetVideoBitrateKbps(options.encoding, durationSec, meta.hasAudio || hasMusic))
+    : [];
+  const crop = shouldConvert && options.mode === 'crop' ? computeCropWindow(meta, options) : undefined;
+  const autoPath = shouldConvert && options.mode === 'auto'
+    ? await analyzeAutoFrame(sourcePath, meta, options, signal)
+    : undefined;
+  // auto without a usable subject path renders as blur
+  const convertOptions: ProcessOptions = autoPath?.fallback ? { ...options, mode: 'blur' } : options;
+  const convertAutoPath = autoPath && !autoPath.fallback ? autoPath : undefined;
+  const layout = captionLayout(meta, convertOptions, convertOptions.mode);
+  let captionsBurned = 0;
+  /** Write this conversion's ASS file (cues shifted to the segment start); undefined without captions. */
+  const subtitlesFor = (index: number, segment?: Segment): string | undefined => {
+    if (!cues) return undefined;
+    const subPath = subtitlesOutputPath(tmpDir, index);
+    captionsBurned += writeAssSubtitles(
+      cues,
+      options.captionStyle,
+      layout,
+      subPath,
+      segment?.startSec ?? 0,
+      segment?.durationSec ?? Infinity,
+    );
+    return subPath;
+  };
+  /** Measured (before) and normalized (after) levels per conversion; after = before when silent. */
+  const loudness: { before: LoudnessMeasurement; after: LoudnessMeasurement }[] = [];
+  /** Convert one window, wrapped in the two loudnorm passes when normalizing. */
+  const convert = async (
+    outFile: string,
+    convertCtx: ConvertContext,
+  ): Promise<void> => {
+    const before = normalize
+      ? await measureLoudness(sourcePath, options, convertCtx.segment, signal)
+      : undefined;
+    const stderr = await convertToShorts(sourcePath, outFile, convertOptions, {
+      ...convertCtx,
+      sampleAspectRatio: meta.sampleAspectRatio,
+      loudness: before,
+      musicPath: hasMusic ? musicPath : undefined,
+      hasAudio: meta.hasAudio,
+    });
+    if (before) {
+      loudness.push({ before, after: before.silent ? before : parseLoudnorm(stderr, 'output') });
+    }
+  };
+  let zipped = false;
+  /** Size of each split segment file; the zip's size says nothing about the profile's file limit. */
+  let segmentSizes: number[] | undefined;
+
+  if (shouldConvert) {
+    if (segments.length > 1) {
+      const totalSec = segments.reduce((sum, seg) => sum + seg.durationSec, 0);
+      const convertStart = Date.now();
+      let doneSec = 0;
+      const segmentPaths: string[] = [];
+      for (let i = 0; i < segments.length; i++) {
+        const segPath = segmentOutputPath(tmpDir, i + 1, spec.ext);
+        const offsetSec = doneSec;
+        await convert(segPath, {
+          segment: segments[i],
+          videoBitrateKbps: videoBitrates[i],
+          signal,
+          crop,
+          autoPath: convertAutoPath,
+          subtitlesPath: subtitlesFor(i + 1, segments[i]),
+          watermarkPath: input.watermarkPath,
+          onProgress: onProgress && ((p) => {
+            const outTimeSec = offsetSec + p.outTimeSec;
+            onProgress({
+              percent: Math.round(Math.min(99.9, (outTimeSec / totalSec) * 100) * 10) / 10,
+              outTimeSec: Math.round(outTimeSec * 1000) / 1000,
+              durationSec: totalSec,
+              elapsedSec: Math.round((Date.now() - convertStart) / 100) / 10,
+              speed: p.speed,
+              etaSec: p.speed ? Math.round(((totalSec - outTimeSec) / p.speed) * 10) / 10 : null,
+            }, i + 1, segments.length);
+          }),
+        });
+        doneSec += segments[i].durationSec;
+        segmentPaths.push(segPath);
+      }
+      segmentSizes = segmentPaths.map((p) => fs.statSync(p).size);
+      outPath = zipOutputPath(tmpDir);
+      await zipFiles(
+        segmentPaths.map((p) => ({ filePath: p, name: path.basename(p) })),
+        outPath,
+      );
+      zipped = true;
+    } else {
+      outPath = outputPath(tmpDir, spec.ext);
+      await convert(outPath, {
+        segment: segments[0],
+        videoBitrateKbps: videoBitrates[0],
+        signal,
+        crop,
+        autoPath: convertAutoPath,
+        subtitlesPath: subtitlesFor(1, segments[0]),
+        watermarkPath: input.watermarkPath,
+        durationSec: meta.durationSec,
+        onProgress: onProgress && ((p) => onProgress(p)),
+      });
+    }
+    converted = true;
+    const outSize = spec.animated
+      ? previewDimensions(options)
+      : { width: options.targetWidth, height: options.targetHeight };
+    finalMeta = {
+      ...meta,
+      width: outSize.width,
+      height: outSize.height,
+      codedWidth: outSize.width,
+      codedHeight: outSize.height,
+      rotation: 0,
+      hasAudio: meta.hasAudio || hasMusic,
+      sampleAspectRatio: 1,
+      sizeBytes: fs.statSync(outPath).size,
+      aspectRatio: outSize.width / outSize.height,
+      durationSec: segments.length > 0
+        ? Math.round(segments.reduce((sum, seg) => sum + seg.durationSec, 0) * 1000) / 1000
+        : meta.durationSec,
+    };
+  } else if (format !== null && path.extname(input.originalName).toLowerCase() !== spec.ext) {
+    // eligible as-is: copy the streams into the requested container
+    outPath = outputPath(tmpDir, spec.ext);
+    await remuxFile(inputPath, outPath, format, signal);
+    remuxed = true;
+    finalMeta = { ...meta, sizeBytes: fs.statSync(outPath).size };
+  } else {
+    outPath = inputPath;
+  }
+
+  const originalName = input.originalName || 'video';
+  const originalExt = path.extname(originalName) || '.mp4';
+  // converted / remuxed output gets the format's extension, not the upload's (.mov -> .mp4)
+  const ext = converted || remuxed ? spec.ext : originalExt;
+  const base = path.basename(originalName, originalExt) || 'video';
+  const safeBase = sanitizeFilename(base);
+  const filenamePrefix = converted ? 'shorts_' : '';
+  const filenameExt = zipped ? '.zip' : ext;
+  const filename = `${filenamePrefix}${safeBase}${filenameExt}`;
+
+  const headers: Record<string, string> = {
+    'X-Video-Width': String(finalMeta.width),
+    'X-Video-Height': String(finalMeta.height),
+    'X-Video-DurationSec': String(finalMeta.durationSec),
+    'X-Video-AspectRatio': String(finalMeta.aspectRatio),
+    'X-Profile': options.profile.id,
+    'X-Shorts-Eligible': String(validation.shortsEligible),
+    'X-Converted': String(converted),
+    'X-Conversion-Mode': convertOptions.mode,
+    'X-Output-Format': converted || format !== null ? format ?? 'mp4-h264' : 'original',
+  };
+  if (remuxed) {
+    headers['X-Remuxed'] = 'true';
+  }
+  if (validation.reasons.length > 0) {
+    headers['X-Shorts-Reasons'] = validation.reasons.join(',');
+  }
+  if (crop) {
+    headers['X-Crop-X'] = String(crop.x);
+    headers['X-Crop-Y'] = String(crop.y);
+    headers['X-Crop-Width'] = String(crop.width);
+    headers['X-Crop-Height'] = String(crop.height);
+    headers['X-Crop-Upscale'] = String(crop.upscale);
+  }
+  if (autoPath) {
+    headers['X-Auto-Reframe'] = autoPath.fallback ? 'fallback' : 'tracked';
+    headers['X-Auto-Confidence'] = String(autoPath.confidence);
+    if (convertAutoPath) {
+      headers['X-Crop-Width'] = String(convertAutoPath.width);
+      headers['X-Crop-Height'] = String(convertAutoPath.height);
+      headers['X-Crop-Upscale'] = String(convertAutoPath.upscale);
+      headers['X-Auto-Keyframes'] = String(convertAutoPath.keyframes.length);
+    }
+  }
+  if (cues) {
+    headers['X-Captions-Burned'] = String(captionsBurned);
+  }
+  if (input.watermarkPath) {
+    headers['X-Watermark'] = 'true';
+  }
+  if (hasMusic && converted) {
+    headers['X-Music'] = input.musicPath ? 'upload' : 'library';
+    // percent-encoded: library names may hold characters a header cannot
+    if (!input.musicPath && options.music.track) headers['X-Music-Track'] = encodeURIComponent(options.music.track);
+    headers['X-Music-Volume'] = String(options.music.volume);
+    // ducked / mixed under the source audio, or the only audio track
+    headers['X-Music-Mix'] = !meta.hasAudio ? 'only' : options.music.ducking ? 'ducked' : 'mixed';
+  }
+  if (converted && spec.animated) {
+    headers['X-Preview-Start-Sec'] = String(segments[0].startSec);
+    headers['X-Preview-Sec'] = String(segments[0].durationSec);
+  } else if (converted) {
+    const { encoding } = options;
+    headers['X-Encode-Preset'] = encoding.preset;
+    if (encoding.targetSizeMB !== null) {
+      headers['X-Encode-Passes'] = '2';
+      headers['X-Encode-Target-Size-MB'] = String(encoding.targetSizeMB);
+      // comma-separated per segment, like X-Segment-Durations
+      headers['X-Encode-Video-Bitrate-Kbps'] = videoBitrates.join(',');
+    } else {
+      headers['X-Encode-Passes'] = '1';
+      headers['X-Encode-CRF'] = String(encoding.crf);
+    }
+    if (encoding.maxBitrateKbps !== null) {
+      headers['X-Encode-Max-Bitrate-Kbps'] = String(encoding.maxBitrateKbps);
+      headers['X-Encode-Bufsize-Kbps'] = String(encoding.bufsizeKbps);
+    }
+    if (encoding.maxFps !== null) headers['X-Encode-Max-Fps'] = String(encoding.maxFps);
+    headers['X-Encode-Audio-Bitrate-Kbps'] = String(encoding.audioBitrateKbps);
+    if (encoding.h264Profile !== null) headers['X-Encode-H264-Profile'] = encoding.h264Profile;
+    if (encoding.h264Level !== null) headers['X-Encode-H264-Level'] = encoding.h264Level;
+  }
+  if (options.normalizeAudio) {
+    headers['X-Loudness-Normalized'] = String(loudness.some(({ before }) => !before.silent));
+  }
+  if (loudness.length > 0) {
+    // comma-separated per segment, like X-Segment-Durations
+    const levels = (pick: (m: LoudnessMeasurement) => number, which: 'before' | 'after'): string =>
+      loudness.map((l) => formatLevel(pick(l[which]))).join(',');
+    headers['X-Loudness-Target-LUFS'] = String(options.targetLufs);
+    headers['X-True-Peak-Target-dBTP'] = String(options.truePeakDb);
+    headers['X-Loudness-Before-LUFS'] = levels((m) => m.integratedLufs, 'before');
+    headers['X-Loudness-After-LUFS'] = levels((m) => m.integratedLufs, 'after');
+    headers['X-True-Peak-Before-dBTP'] = levels((m) => m.truePeakDb, 'before');
+    headers['X-True-Peak-After-dBTP'] = levels((m) => m.truePeakDb, 'after');
+    headers['X-Loudness-Range-Before-LU'] = levels((m) => m.loudnessRangeLu, 'before');
+    headers['X-Loudness-Range-After-LU'] = levels((m) => m.loudnessRangeLu, 'after');
+  }
+  if (silence) {
+    const removedSec = silence.removed.reduce((sum, seg) => sum + seg.durationSec, 0);
+    headers['X-Silence-Removed-Sec'] = String(Math.round(removedSec * 1000) / 1000);
+    headers['X-Silence-Original-DurationSec'] = String(silence.originalDurationSec);
+    headers['X-Silence-DurationSec'] = String(silence.durationSec);
+    headers['X-Silence-Kept-Segments'] = formatWindows(silence.kept);
+    if (silence.removed.length > 0) headers['X-Silence-Removed-Segments'] = formatWindows(silence.removed);
+  }
+  if (options.durationStrategy !== 'none' && converted && !spec.animated) {
+    headers['X-Duration-Strategy'] = options.durationStrategy;
+    headers['X-Segment-Count'] = String(segments.length);
+    headers['X-Segment-Durations'] = segments.map((seg) => seg.durationSec).join(',');
+    headers['X-Start-Offset-Sec'] = String(options.startOffsetSec);
+  }
+  // the profile's file size limit, checked on what is delivered (largest segment when split)
+  const maxFileSizeMB = options.profile.maxFileSizeMB;
+  if (maxFileSizeMB !== null) {
+    const largestBytes = Math.max(...(segmentSizes ?? [finalMeta.sizeBytes]));
+    headers['X-Output-Size-MB'] = String(Math.round((largestBytes / 1024 / 1024) * 100) / 100);
+    headers['X-Output-Size-Limit-MB'] = String(maxFileSizeMB);
+    headers['X-Output-Within-Size-Limit'] = String(largestBytes <= maxFileSizeMB * 1024 * 1024);
+  }
+
+  const result: ShortsResult = {
+    outPath,
+    contentType: zipped
+      ? 'application/zip'
+      : converted || remuxed ? spec.contentType : passthroughContentType(originalName),
+    filename,
+    headers,
+    meta: sourceMeta,
+    finalMeta,
+    validation,
+    converted,
+    conversionMode: convertOptions.mode,
+    segments,
+    silence,
+  };
+  // untouched passthrough is served from the upload itself; nothing worth storing
+  if (cacheKey && (converted || remuxed)) {
+    await putCachedResult(cacheKey, result, { prefix: filenamePrefix, ext: filenameExt });
+    result.headers['X-Cache'] = 'MISS';
+  }
+  return result;
+}
@@ -0,0 +1,42 @@
+/**
+ * Registry of running ffmpeg / ffprobe child processes. Requests and jobs stop their own processes
+ * through AbortSignals; the registry lets shutdown stop whatever is still running after the grace
+ * period.
+ */
+
+export type ToolName = 'ffmpeg' | 'ffprobe';
+
+interface RunningProcess {
+  tool: ToolName;
+  /** Kill the process and reject its caller with SHUTTING_DOWN. */
+  stop: () => void;
+}
+
+const running = new Set<RunningProcess>();
+
+/**
+ * Track a spawned process until the returned function is called (on exit / error).
+ * stop is the spawn site's own kill path, so the caller's promise settles with a clear error.
+ */
+export function registerProcess(tool: ToolName, stop: () => void): () => void {
+  const entry: RunningProcess = { tool, stop };
+  running.add(entry);
+  return () => {
+    running.delete(entry);
+  };
+}
+
+/** Running processes per tool. */
+export function runningProcesses(): Record<ToolName, number> {
+  const counts: Record<ToolName, number> = { ffmpeg: 0, ffprobe: 0 };
+  for (const entry of running) counts[entry.tool]++;
+  return counts;
+}
+
+/** Stop every registered process (shutdown). Returns how many were stopped. */
+export function stopAllProcesses(): number {
+  const entries = [...running];
+  running.clear();
+  for (const entry of entries) entry.stop();
+  return entries.length;
+}
@@ -0,0 +1,158 @@
+/**
+ * Platform profiles: built-in YouTube Shorts / TikTok / Instagram Reels rules plus custom
+ * profiles from the JSON file in PROFILES_FILE (loaded once, on first use).
+ */
+
+import * as fs from 'fs';
+import { DEFAULT_PROFILE, type PlatformProfile } from '../types';
+import { log } from './logger';
+
+/**
+ * Built-in limits follow the platforms' published upload specs; PROFILES_FILE can override
+ * any of them by reusing the id.
+ */
+const BUILTIN_PROFILES: PlatformProfile[] = [
+  DEFAULT_PROFILE,
+  {
+    id: 'youtube-shorts',
+    name: 'YouTube Shorts',
+    targetWidth: 1080,
+    targetHeight: 1920,
+    tolerance: 0.08,
+    maxDurationSec: 180,
+    minWidth: 0,
+    minHeight: 0,
+    maxFileSizeMB: null,
+    maxFps: 60,
+    maxBitrateKbps: null,
+  },
+  {
+    id: 'tiktok',
+    name: 'TikTok',
+    targetWidth: 1080,
+    targetHeight: 1920,
+    tolerance: 0.08,
+    maxDurationSec: 600,
+    minWidth: 360,
+    minHeight: 360,
+    maxFileSizeMB: 4096,
+    maxFps: 60,
+    maxBitrateKbps: null,
+  },
+  {
+    id: 'instagram-reels',
+    name: 'Instagram Reels',
+    targetWidth: 1080,
+    targetHeight: 1920,
+    tolerance: 0.08,
+    maxDurationSec: 900,
+    minWidth: 0,
+    minHeight: 0,
+    maxFileSizeMB: 300,
+    maxFps: 60,
+    maxBitrateKbps: 25000,
+  },
+];
+
+const ID_RE = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+const NUMERIC_FIELDS = ['targetWidth', 'targetHeight', 'tolerance', 'maxDurationSec', 'minWidth', 'minHeight'] as const;
+const LIMIT_FIELDS = ['maxFileSizeMB', 'maxFps', 'maxBitrateKbps'] as const;
+
+let profiles: Map<string, PlatformProfile> | null = null;
+
+/**
+ * One PROFILES_FILE entry -> profile. Missing fields come from the profile named in
+ * "extends" (default: the default profile); limits may be null to remove them.
+ */
+function parseCustomProfile(raw: unknown, known: Map<string, PlatformProfile>): PlatformProfile {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('PROFILES_FILE: every entry must be an object');
+  }
+  const entry = raw as Record<string, unknown>;
+  const id = String(entry.id ?? '').toLowerCase();
+  if (!ID_RE.test(id)) {
+    throw new Error(`PROFILES_FILE: invalid profile id "${String(entry.id)}" (a-z, 0-9, "-", "_")`);
+  }
+  const baseId = entry.extends === undefined ? DEFAULT_PROFILE.id : String(entry.extends).toLowerCase();
+  const base = known.get(baseId);
+  if (!base) {
+    throw new Error(`PROFILES_FILE: profile "${id}" extends unknown profile "${baseId}"`);
+  }
+
+  const profile: PlatformProfile = { ...base, id, name: typeof entry.name === 'string' ? entry.name : id };
+  for (const field of NUMERIC_FIELDS) {
+    if (entry[field] === undefined) continue;
+    const n = Number(entry[field]);
+    if (!Number.isFinite(n) || n < 0) {
+      throw new Error(`PROFILES_FILE: profile "${id}" has invalid ${field}`);
+    }
+    profile[field] = n;
+  }
+  for (const field of LIMIT_FIELDS) {
+    if (entry[field] === undefined) continue;
+    const n = entry[field] === null ? null : Number(entry[field]);
+    if (n !== null && (!Number.isFinite(n) || n <= 0)) {
+      throw new Error(`PROFILES_FILE: profile "${id}" has invalid ${field}`);
+    }
+    profile[field] = n;
+  }
+  if (profile.targetWidth < 1 || profile.targetHeight < 1 || profile.maxDurationSec < 1) {
+    throw new Error(`PROFILES_FILE: profile "${id}" needs targetWidth, targetHeight and maxDurationSec >= 1`);
+  }
+  return profile;
+}
+
+/** Built-ins, then PROFILES_FILE entries (a JSON array) in file order; same id replaces. */
+function loadProfiles(): Map<string, PlatformProfile> {
+  const map = new Map(BUILTIN_PROFILES.map((p) => [p.id, p]));
+  const file = process.env.PROFILES_FILE;
+  if (!file) return map;
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (e) {
+    throw new Error(`PROFILES_FILE: cannot read ${file}: ${(e as Error).message}`);
+  }
+  if (!Array.isArray(entries)) {
+    throw new Error('PROFILES_FILE: expected a JSON array of profiles');
+  }
+  for (const entry of entries) {
+    const profile = parseCustomProfile(entry, map);
+    map.set(profile.id, profile);
+  }
+  log.info('profiles loaded', { file, count: entries.length });
+  return map;
+}
+
+function profileMap(): Map<string, PlatformProfile> {
+  if (!profiles) profiles = loadProfiles();
+  return profiles;
+}
+
+/** All profiles, default first. Throws on an invalid PROFILES_FILE (call at startup to fail fast). */
+export function listProfiles(): PlatformProfile[] {
+  return [...profileMap().values()];
+}
+
+/** Profile by id (case-insensitive); missing / empty -> default. Unknown ids are INVALID_OPTIONS. */
+export function resolveProfile(value: unknown): PlatformProfile {
+  const missing = value === undefined || value === null || String(value).trim() === '';
+  const id = missing ? DEFAULT_PROFILE.id : String(value).trim().toLowerCase();
+  const profile = profileMap().get(id);
+  if (!profile) {
+    throw new Error(`INVALID_OPTIONS: unknown profile "${id}" (see GET /profiles)`);
+  }
+  return profile;
+}
+
+/**
+ * "tiktok,instagram-reels" (or an array, or "all") -> profiles for multi-profile checks.
+ * Unknown ids are INVALID_OPTIONS.
+ */
+export function resolveProfileList(value: unknown): PlatformProfile[] {
+  if (value === undefined || value === null || value === '') return [];
+  if (value === 'all') return listProfiles();
+  const ids = Array.isArray(value) ? value.map(String) : String(value).split(',');
+  return [...new Set(ids.map((id) => id.trim()).filter((id) => id !== ''))].map(resolveProfile);
+}
@@ -0,0 +1,65 @@
+/**
+ * Progress registry: latest ProgressEvent per requestId, fanned out to SSE subscribers.
+ * Channels are created on first publish or subscribe; finished ones linger briefly for late subscribers.
+ */
+
+import type { ProgressEvent } from '../types';
+
+/** How long a finished channel keeps its final event. */
+const FINISHED_RETENTION_MS = 60 * 1000;
+
+type Listener = (event: ProgressEvent) => void;
+
+interface Channel {
+  last?: ProgressEvent;
+  listeners: Set<Listener>;
+  expireTimer?: NodeJS.Timeout;
+}
+
+const channels = new Map<string, Channel>();
+
+/** True for done / failed / cancelled: no more events will follow. */
+export function isFinalProgress(event: ProgressEvent): boolean {
+  return event.status === 'done' || event.status === 'failed' || event.status === 'cancelled';
+}
+
+function channelFor(requestId: string): Channel {
+  let ch = channels.get(requestId);
+  if (!ch) {
+    ch = { listeners: new Set() };
+    channels.set(requestId, ch);
+  }
+  return ch;
+}
+
+/**
+ * Record and broadcast an event. Final events (done / failed / cancelled) schedule channel removal.
+ */
+export function publishProgress(event: ProgressEvent): void {
+  const ch = channelFor(event.requestId);
+  ch.last = event;
+  for (const listener of ch.listeners) listener(event);
+  if (isFinalProgress(event) && !ch.expireTimer) {
+    ch.expireTimer = setTimeout(() => channels.delete(event.requestId), FINISHED_RETENTION_MS);
+    ch.expireTimer.unref();
+  }
+}
+
+/** Latest event for a requestId, if any. */
+export function getProgress(requestId: string): ProgressEvent | undefined {
+  return channels.get(requestId)?.last;
+}
+
+/**
+ * Listen for events on a requestId (which may not have started yet).
+ * The latest event, if any, is delivered immediately. Returns an unsubscribe function.
+ */
+export function subscribeProgress(requestId: string, listener: Listener): () => void {
+  const ch = channelFor(requestId);
+  ch.listeners.add(listener);
+  if (ch.last) listener(ch.last);
+  return () => {
+    ch.listeners.delete(listener);
+    if (ch.listeners.size === 0 && !ch.last) channels.delete(requestId);
+  };
+}
@@ -0,0 +1,103 @@
+/**
+ * Retained /process/shorts outputs: after the response, the output stays in its request dir for
+ * RESULT_RETENTION_SEC under the request id, so an interrupted download can be resumed with
+ * GET /results/:id (Range) instead of re-uploading and re-converting. Inputs are deleted as soon
+ * as the output is retained.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { type OutputFile, RESULT_RETENTION_SEC_DEFAULT } from '../types';
+import { log } from './logger';
+import { holdTmpDir, rmDirRecursive } from './tmp';
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+export interface RetainedResult {
+  id: string;
+  /** Request dir holding only the output; deleted at expiry. */
+  tmpDir: string;
+  output: OutputFile;
+  /** API key name that produced it; only that key can download it. */
+  owner?: string;
+  expiresAt: number;
+}
+
+function envInt(name: string, fallback: number, min: number, max: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return fallback;
+  const n = parseInt(raw, 10);
+  if (!Number.isFinite(n) || n < min) return fallback;
+  return Math.min(n, max);
+}
+
+const retentionMs = envInt('RESULT_RETENTION_SEC', RESULT_RETENTION_SEC_DEFAULT, 0, 7 * 24 * 3600) * 1000;
+
+const results = new Map<string, RetainedResult>();
+
+export function resultRetentionEnabled(): boolean {
+  return retentionMs > 0;
+}
+
+/** Delete everything in dir except keep (the output), so a retained result only costs its own size. */
+function pruneExcept(dir: string, keep: string): void {
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const full = path.join(dir, entry.name);
+    if (full === keep) continue;
+    if (entry.isDirectory()) rmDirRecursive(full);
+    else fs.unlinkSync(full);
+  }
+}
+
+/**
+ * Keep output (inside tmpDir) downloadable under id until RESULT_RETENTION_SEC from now; an
+ * older result under the same id is deleted. Returns the retained entry; the caller must not
+ * delete tmpDir afterwards.
+ */
+export function retainResult(id: string, tmpDir: string, output: OutputFile, owner?: string): RetainedResult {
+  const previous = results.get(id);
+  if (previous && previous.tmpDir !== tmpDir) removeResult(previous);
+  try {
+    pruneExcept(tmpDir, output.outPath);
+  } catch (e) {
+    log.warn('results: cannot prune request dir', { requestId: id, error: e });
+  }
+  // outlives the request; held until removeResult deletes it
+  holdTmpDir(tmpDir);
+  const entry: RetainedResult = {
+    id,
+    tmpDir,
+    output,
+    owner,
+    expiresAt: Date.now() + retentionMs,
+  };
+  results.set(id, entry);
+  return entry;
+}
+
+export function getRetainedResult(id: string): RetainedResult | undefined {
+  const entry = results.get(id);
+  if (entry && entry.expiresAt <= Date.now()) {
+    removeResult(entry);
+    return undefined;
+  }
+  return entry;
+}
+
+function removeResult(entry: RetainedResult): void {
+  results.delete(entry.id);
+  try {
+    rmDirRecursive(entry.tmpDir);
+  } catch {
+    /* ignore */
+  }
+}
+
+function sweepExpired(): void {
+  const now = Date.now();
+  for (const entry of results.values()) {
+    if (entry.expiresAt <= now) removeResult(entry);
+  }
+}
+
+setInterval(sweepExpired, SWEEP_INTERVAL_MS).unref();
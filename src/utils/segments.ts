@@ -0,0 +1,60 @@
+/**
+ * Duration strategy: plan trim / split windows for sources over maxDurationSec.
+ */
+
+import type { ProcessOptions, Segment } from '../types';
+import { MAX_SPLIT_SEGMENTS } from '../types';
+
+/** Segments shorter than this are dropped (avoids a trailing sliver of a frame or two). */
+const MIN_SEGMENT_SEC = 0.5;
+
+function round3(n: number): number {
+  return Math.round(n * 1000) / 1000;
+}
+
+/**
+ * Plan the output windows for a conversion.
+ * Returns [] when durationStrategy is 'none' (convert the full source).
+ * Throws INVALID_OPTIONS when the offset is past the end or too many segments would result.
+ */
+export function planSegments(durationSec: number, options: ProcessOptions): Segment[] {
+  const { durationStrategy, maxDurationSec, startOffsetSec } = options;
+  if (durationStrategy === 'none') return [];
+
+  const remaining = durationSec - startOffsetSec;
+  if (remaining < MIN_SEGMENT_SEC) {
+    throw new Error(
+      `INVALID_OPTIONS: startOffsetSec ${startOffsetSec} is beyond the end of the video (${round3(durationSec)}s)`,
+    );
+  }
+
+  if (durationStrategy === 'trim') {
+    return [{ startSec: startOffsetSec, durationSec: round3(Math.min(maxDurationSec, remaining)) }];
+  }
+
+  const segments: Segment[] = [];
+  for (let start = startOffsetSec; durationSec - start >= MIN_SEGMENT_SEC; start += maxDurationSec) {
+    segments.push({ startSec: round3(start), durationSec: round3(Math.min(maxDurationSec, durationSec - start)) });
+    if (segments.length > MAX_SPLIT_SEGMENTS) {
+      throw new Error(
+        `INVALID_OPTIONS: split would produce more than ${MAX_SPLIT_SEGMENTS} segments; raise maxDurationSec or trim the source`,
+      );
+    }
+  }
+  return segments;
+}
+
+/**
+ * Window for an animated preview (outputFormat gif / webp): previewSec from startOffsetSec,
+ * within maxDurationSec. durationStrategy does not apply.
+ */
+export function planPreview(durationSec: number, options: ProcessOptions): Segment {
+  const { maxDurationSec, previewSec, startOffsetSec } = options;
+  const remaining = durationSec - startOffsetSec;
+  if (remaining < MIN_SEGMENT_SEC) {
+    throw new Error(
+      `INVALID_OPTIONS: startOffsetSec ${startOffsetSec} is beyond the end of the video (${round3(durationSec)}s)`,
+    );
+  }
+  return { startSec: startOffsetSec, durationSec: round3(Math.min(previewSec, maxDurationSec, remaining)) };
+}
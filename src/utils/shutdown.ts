@@ -0,0 +1,88 @@
+/**
+ * Graceful shutdown on SIGTERM / SIGINT: stop accepting work (/health reports draining, new
+ * uploads get 503), let running requests and jobs finish within SHUTDOWN_GRACE_SEC, then stop the
+ * remaining ffmpeg / ffprobe processes, delete this process's request / job tmp dirs and exit.
+ */
+
+import type { Server } from 'http';
+import { SHUTDOWN_GRACE_SEC_DEFAULT } from '../types';
+import { runningJobCount, stopAcceptingJobs } from './jobs';
+import { log } from './logger';
+import { runningProcesses, stopAllProcesses } from './processes';
+import { removeLiveTmpDirs } from './tmp';
+
+const POLL_MS = 250;
+/** After stopping processes: time for their requests / jobs to answer and clean up. */
+const SETTLE_MS = 500;
+
+function envInt(name: string, fallback: number, min: number, max: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return fallback;
+  const n = parseInt(raw, 10);
+  if (!Number.isFinite(n) || n < min) return fallback;
+  return Math.min(n, max);
+}
+
+let draining = false;
+/** Requests doing work (uploads, conversions, result streams) that shutdown waits for. */
+let activeRequests = 0;
+
+export function isDraining(): boolean {
+  return draining;
+}
+
+/** Count a request as in progress until the returned function is called. */
+export function trackRequest(): () => void {
+  activeRequests++;
+  let done = false;
+  return () => {
+    if (done) return;
+    done = true;
+    activeRequests--;
+  };
+}
+
+/** What shutdown is still waiting for (GET /health while draining). */
+export function drainState(): { activeRequests: number; runningJobs: number; processes: Record<string, number> } {
+  return { activeRequests, runningJobs: runningJobCount(), processes: runningProcesses() };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function shutdown(server: Server, signal: string): Promise<void> {
+  if (draining) return;
+  draining = true;
+  const graceSec = envInt('SHUTDOWN_GRACE_SEC', SHUTDOWN_GRACE_SEC_DEFAULT, 0, 3600);
+  log.info('shutdown: draining', { signal, graceSec, ...drainState() });
+
+  // keep listening while draining: /health answers 503 draining, job status / results stay
+  // readable and drainGuard turns new uploads away
+  stopAcceptingJobs();
+  const deadline = Date.now() + graceSec * 1000;
+  while (Date.now() < deadline && (activeRequests > 0 || runningJobCount() > 0)) {
+    await sleep(POLL_MS);
+  }
+
+  const stopped = stopAllProcesses();
+  if (stopped > 0) {
+    log.warn('shutdown: grace period over, stopped running processes', { count: stopped, ...drainState() });
+    await sleep(SETTLE_MS);
+  }
+  server.close();
+  // progress streams and idle keep-alive connections
+  server.closeAllConnections();
+  const removed = removeLiveTmpDirs();
+  log.info('shutdown: done', { removedTmpDirs: removed });
+  process.exit(0);
+}
+
+/** Drain and exit on SIGTERM (Render deploys) and SIGINT (Ctrl+C). */
+export function installShutdownHandlers(server: Server): void {
+  for (const signal of ['SIGTERM', 'SIGINT'] as const) {
+    process.once(signal, () => {
+      void shutdown(server, signal);
+    });
+  }
+}
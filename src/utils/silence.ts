@@ -0,0 +1,186 @@
+/**
+ * Silence / dead-air removal (removeSilence): find quiet spans with the ffmpeg silencedetect filter,
+ * keep a little padding around the speech, and cut the spans out of audio and video into an
+ * intermediate file that the rest of the pipeline (validation, trim / split, reframing) uses as
+ * its source. Caption times are mapped onto the cut timeline.
+ */
+
+import * as path from 'path';
+import type { ProcessOptions, Segment, SilenceRemoval, VideoMetadata } from '../types';
+import type { Cue } from './captions';
+import { runFfmpeg } from './ffmpeg';
+import { silenceCutPath } from './tmp';
+
+/** Cuts shorter than this (after padding) are not worth a splice. */
+const MIN_CUT_SEC = 0.05;
+/** Most cuts per video; beyond that only the longest silences are removed (filtergraph size). */
+const MAX_CUTS = 100;
+/** Cue remnants shorter than this after mapping are dropped. */
+const MIN_CUE_SEC = 0.05;
+
+/** A silent span reported by silencedetect, in source seconds. */
+export interface SilenceSpan {
+  startSec: number;
+  endSec: number;
+}
+
+function round3(n: number): number {
+  return Math.round(n * 1000) / 1000;
+}
+
+/**
+ * Parse silencedetect's silence_start / silence_end lines from ffmpeg stderr. A start without an
+ * end means the file is silent up to durationSec.
+ */
+export function parseSilencedetect(stderr: string, durationSec: number): SilenceSpan[] {
+  const spans: SilenceSpan[] = [];
+  let start: number | null = null;
+  for (const m of stderr.matchAll(/silence_(start|end):\s*(-?[\d.]+)/g)) {
+    const t = Number(m[2]);
+    if (!Number.isFinite(t)) continue;
+    if (m[1] === 'start') {
+      start = Math.max(0, t);
+    } else if (start !== null) {
+      spans.push({ startSec: start, endSec: Math.min(t, durationSec) });
+      start = null;
+    }
+  }
+  if (start !== null && start < durationSec) spans.push({ startSec: start, endSec: durationSec });
+  return spans;
+}
+
+/** Run silencedetect over the first audio stream. Caller must check meta.hasAudio. */
+export async function detectSilence(
+  inputPath: string,
+  options: ProcessOptions,
+  durationSec: number,
+  signal?: AbortSignal,
+): Promise<SilenceSpan[]> {
+  const stderr = await runFfmpeg([
+    '-hide_banner', '-nostats',
+    '-i', path.resolve(inputPath),
+    '-map', '0:a:0',
+    '-af', `silencedetect=noise=${options.silenceThresholdDb}dB:duration=${options.silenceMinSec}`,
+    '-f', 'null', '-',
+  ], { signal });
+  return parseSilencedetect(stderr, durationSec);
+}
+
+/**
+ * Turn silent spans into kept / removed windows. paddingSec of silence stays next to speech;
+ * silence at the very start or end is removed up to the edge. Everything silent: nothing is cut.
+ */
+export function planSilenceCuts(spans: SilenceSpan[], durationSec: number, paddingSec: number): SilenceRemoval {
+  let cuts = spans
+    .map(({ startSec, endSec }) => ({
+      startSec: startSec <= MIN_CUT_SEC ? 0 : startSec + paddingSec,
+      endSec: endSec >= durationSec - MIN_CUT_SEC ? durationSec : endSec - paddingSec,
+    }))
+    .filter((cut) => cut.endSec - cut.startSec >= MIN_CUT_SEC);
+  if (cuts.length > MAX_CUTS) {
+    cuts = cuts
+      .sort((a, b) => (b.endSec - b.startSec) - (a.endSec - a.startSec))
+      .slice(0, MAX_CUTS);
+  }
+  cuts.sort((a, b) => a.startSec - b.startSec);
+
+  const kept: Segment[] = [];
+  const removed: Segment[] = [];
+  let t = 0;
+  for (const cut of cuts) {
+    if (cut.startSec > t) kept.push({ startSec: round3(t), durationSec: round3(cut.startSec - t) });
+    removed.push({ startSec: round3(cut.startSec), durationSec: round3(cut.endSec - cut.startSec) });
+    t = Math.max(t, cut.endSec);
+  }
+  if (t < durationSec) kept.push({ startSec: round3(t), durationSec: round3(durationSec - t) });
+
+  if (kept.length === 0) {
+    return {
+      kept: [{ startSec: 0, durationSec: round3(durationSec) }],
+      removed: [],
+      originalDurationSec: durationSec,
+      durationSec,
+    };
+  }
+  return {
+    kept,
+    removed,
+    originalDurationSec: durationSec,
+    durationSec: round3(kept.reduce((sum, seg) => sum + seg.durationSec, 0)),
+  };
+}
+
+/**
+ * Write the kept windows of audio and video back to back into outPath. Re-encoded near-losslessly
+ * (the real encode comes later); PCM audio keeps the splices sample-exact.
+ */
+async function renderSilenceCut(
+  inputPath: string,
+  outPath: string,
+  kept: Segment[],
+  signal?: AbortSignal,
+): Promise<void> {
+  const n = kept.length;
+  const range = (seg: Segment) => `start=${seg.startSec}:end=${round3(seg.startSec + seg.durationSec)}`;
+  const graph = [
+    `[0:v:0]split=${n}${kept.map((_, i) => `[sv${i}]`).join('')}`,
+    `[0:a:0]asplit=${n}${kept.map((_, i) => `[sa${i}]`).join('')}`,
+    ...kept.map((seg, i) => `[sv${i}]trim=${range(seg)},setpts=PTS-STARTPTS[kv${i}]`),
+    ...kept.map((seg, i) => `[sa${i}]atrim=${range(seg)},asetpts=PTS-STARTPTS[ka${i}]`),
+    `${kept.map((_, i) => `[kv${i}][ka${i}]`).join('')}concat=n=${n}:v=1:a=1[vout][aout]`,
+  ];
+  await runFfmpeg([
+    '-y',
+    '-i', path.resolve(inputPath),
+    '-filter_complex', graph.join(';'),
+    '-map', '[vout]',
+    '-map', '[aout]',
+    '-c:v', 'libx264',
+    '-preset', 'veryfast',
+    '-crf', '16',
+    '-c:a', 'pcm_s16le',
+    path.resolve(outPath),
+  ], { signal });
+}
+
+/**
+ * Detect and cut silence from inputPath. outPath is the cut file inside tmpDir, or undefined when
+ * nothing was removed (use the source as is).
+ */
+export async function removeSilence(
+  inputPath: string,
+  meta: VideoMetadata,
+  options: ProcessOptions,
+  tmpDir: string,
+  signal?: AbortSignal,
+): Promise<{ outPath?: string; removal: SilenceRemoval }> {
+  const spans = await detectSilence(inputPath, options, meta.durationSec, signal);
+  const removal = planSilenceCuts(spans, meta.durationSec, options.silencePaddingSec);
+  if (removal.removed.length === 0) return { removal };
+  const outPath = silenceCutPath(tmpDir);
+  await renderSilenceCut(inputPath, outPath, removal.kept, signal);
+  return { outPath, removal };
+}
+
+/** Position of source time t on the cut timeline; inside a removed span, where the cut is. */
+function mapToCut(kept: Segment[], t: number): number {
+  let out = 0;
+  for (const seg of kept) {
+    if (t < seg.startSec) return out;
+    if (t <= seg.startSec + seg.durationSec) return out + (t - seg.startSec);
+    out += seg.durationSec;
+  }
+  return out;
+}
+
+/** Shift cues onto the cut timeline; cues that fell entirely into silence are dropped. */
+export function mapCuesToCut(cues: Cue[], kept: Segment[]): Cue[] {
+  return cues
+    .map((cue) => ({ ...cue, startSec: mapToCut(kept, cue.startSec), endSec: mapToCut(kept, cue.endSec) }))
+    .filter((cue) => cue.endSec - cue.startSec >= MIN_CUE_SEC);
+}
+
+/** Header form of windows: "start-end" pairs in seconds, comma-separated. */
+export function formatWindows(segments: Segment[]): string {
+  return segments.map((seg) => `${seg.startSec}-${round3(seg.startSec + seg.durationSec)}`).join(',');
+}
@@ -0,0 +1,119 @@
+/**
+ * Tmp storage housekeeping: a janitor that deletes orphaned request / job dirs (left behind by a
+ * crash, or leaked by a code path that never removed them) and free-space admission for uploads.
+ * Env: TMP_MAX_AGE_SEC, TMP_SWEEP_INTERVAL_SEC, DISK_FREE_MULTIPLE.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  DISK_FREE_MULTIPLE_DEFAULT,
+  MAX_FILE_SIZE_BYTES,
+  TMP_MAX_AGE_SEC_DEFAULT,
+  TMP_SWEEP_INTERVAL_SEC_DEFAULT,
+} from '../types';
+import { cacheStats } from './cache';
+import { log } from './logger';
+import { ensureTmpDir, isHeldTmpDir, isLiveTmpDir, rmDirRecursive, TMP_DIR } from './tmp';
+
+/** Request / job dirs are named by createUniqueTmpDir; anything else in TMP_DIR is left alone. */
+const REQUEST_DIR_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+function envInt(name: string, fallback: number, min: number, max: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return fallback;
+  const n = parseInt(raw, 10);
+  if (!Number.isFinite(n) || n < min) return fallback;
+  return Math.min(n, max);
+}
+
+const maxAgeMs = envInt('TMP_MAX_AGE_SEC', TMP_MAX_AGE_SEC_DEFAULT, 600, 30 * 24 * 3600) * 1000;
+const sweepIntervalMs = envInt('TMP_SWEEP_INTERVAL_SEC', TMP_SWEEP_INTERVAL_SEC_DEFAULT, 60, 24 * 3600) * 1000;
+const freeMultiple = envInt('DISK_FREE_MULTIPLE', DISK_FREE_MULTIPLE_DEFAULT, 0, 1000);
+
+/** Latest mtime of dir and its direct entries: a dir still being written to is not stale. */
+async function lastModifiedMs(dir: string): Promise<number> {
+  let latest = (await fs.promises.stat(dir)).mtimeMs;
+  for (const name of await fs.promises.readdir(dir)) {
+    try {
+      latest = Math.max(latest, (await fs.promises.lstat(path.join(dir, name))).mtimeMs);
+    } catch {
+      /* removed meanwhile */
+    }
+  }
+  return latest;
+}
+
+/**
+ * Delete request / job dirs under TMP_DIR that no request, job, retained result or upload of this
+ * process holds and that were not modified for TMP_MAX_AGE_SEC. The cache dir is never touched.
+ * Returns the count removed.
+ */
+export async function sweepOrphanedTmpDirs(): Promise<number> {
+  const cacheDir = cacheStats().dir;
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(TMP_DIR, { withFileTypes: true });
+  } catch {
+    return 0;
+  }
+  const cutoff = Date.now() - maxAgeMs;
+  let removed = 0;
+  for (const entry of entries) {
+    const dir = path.join(TMP_DIR, entry.name);
+    if (!entry.isDirectory() || !REQUEST_DIR_RE.test(entry.name) || dir === cacheDir || isHeldTmpDir(dir)) {
+      continue;
+    }
+    try {
+      if ((await lastModifiedMs(dir)) > cutoff) continue;
+      await fs.promises.rm(dir, { recursive: true, force: true });
+      if (isLiveTmpDir(dir)) {
+        // created by this process but nothing holds it: a cleanup was missed
+        log.warn('tmp janitor: removed leaked dir', { dir });
+        rmDirRecursive(dir);
+      }
+      removed++;
+    } catch (e) {
+      log.warn('tmp janitor: cannot remove dir', { dir, error: e });
+    }
+  }
+  if (removed > 0) log.info('tmp janitor: removed orphaned dirs', { count: removed });
+  return removed;
+}
+
+/** Sweep once now (leftovers of a previous process) and then every TMP_SWEEP_INTERVAL_SEC. */
+export function startTmpJanitor(): void {
+  const sweep = (): void => {
+    sweepOrphanedTmpDirs().catch((e: Error) => log.error('tmp janitor failed', { error: e }));
+  };
+  sweep();
+  setInterval(sweep, sweepIntervalMs).unref();
+}
+
+/** Free bytes for unprivileged writes on the TMP_DIR filesystem. */
+export async function freeDiskBytes(): Promise<number> {
+  const stats = await fs.promises.statfs(ensureTmpDir());
+  return stats.bavail * stats.bsize;
+}
+
+/**
+ * Throws INSUFFICIENT_STORAGE when less than DISK_FREE_MULTIPLE × MAX_FILE_SIZE_BYTES is free
+ * (an upload plus its outputs must fit). Admits when free space cannot be read.
+ */
+export async function assertDiskSpace(): Promise<void> {
+  if (freeMultiple === 0) return;
+  const required = freeMultiple * MAX_FILE_SIZE_BYTES;
+  let free: number;
+  try {
+    free = await freeDiskBytes();
+  } catch (e) {
+    log.warn('cannot read free disk space; admitting upload', { error: e });
+    return;
+  }
+  if (free < required) {
+    throw new Error(
+      `INSUFFICIENT_STORAGE: only ${Math.floor(free / 1024 / 1024)}MB free for temporary files; `
+        + `${required / 1024 / 1024}MB required. Retry later.`,
+    );
+  }
+}
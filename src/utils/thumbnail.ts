@@ -0,0 +1,138 @@
+/**
+ * Stills for POST /thumbnail: single timestamp, N evenly spaced frames (ZIP), "best" frame
+ * (ffmpeg thumbnail filter), or a grid contact sheet. Optional 9:16 framing matching the Short.
+ */
+
+import * as path from 'path';
+import type {
+  ImageFormat,
+  OutputFile,
+  ProcessOptions,
+  ThumbnailOptions,
+  VideoMetadata,
+} from '../types';
+import { computeCropWindow } from './crop';
+import { buildReframeFilter, runFfmpeg } from './ffmpeg';
+import { frameOutputPath, sanitizeFilename, thumbnailOutputPath, zipOutputPath } from './tmp';
+import { zipFiles } from './zip';
+
+const IMAGE_TYPES: Record<ImageFormat, { ext: string; mime: string; args: string[] }> = {
+  jpeg: { ext: '.jpg', mime: 'image/jpeg', args: ['-q:v', '2'] },
+  png: { ext: '.png', mime: 'image/png', args: [] },
+  webp: { ext: '.webp', mime: 'image/webp', args: ['-quality', '85'] },
+};
+
+/** Frames sampled across the video for select=best. */
+const BEST_CANDIDATES = 100;
+
+function round3(n: number): number {
+  return Math.round(n * 1000) / 1000;
+}
+
+/**
+ * Graph: [0:v] -> select filters -> (framing) -> post filters -> [out].
+ */
+function buildStillGraph(
+  select: string,
+  post: string,
+  thumb: ThumbnailOptions,
+  procOptions: ProcessOptions,
+  meta: VideoMetadata,
+): string {
+  const parts = [`[0:v]${select || 'null'}[sel]`];
+  let v = 'sel';
+  if (thumb.framing !== 'none') {
+    const opts: ProcessOptions = { ...procOptions, mode: thumb.framing };
+    const crop = thumb.framing === 'crop' ? computeCropWindow(meta, opts) : undefined;
+    parts.push(buildReframeFilter(v, 'framed', opts, { crop, sampleAspectRatio: meta.sampleAspectRatio }));
+    v = 'framed';
+  }
+  parts.push(`[${v}]${post || 'null'}[out]`);
+  return parts.join(';');
+}
+
+async function renderStill(
+  inputPath: string,
+  outPath: string,
+  graph: string,
+  format: ImageFormat,
+  seekSec?: number,
+  signal?: AbortSignal,
+): Promise<void> {
+  const args = ['-y', '-v', 'error'];
+  if (seekSec !== undefined) args.push('-ss', String(seekSec));
+  args.push(
+    '-i', path.resolve(inputPath),
+    '-filter_complex', graph,
+    '-map', '[out]',
+    '-frames:v', '1',
+    ...IMAGE_TYPES[format].args,
+    path.resolve(outPath),
+  );
+  await runFfmpeg(args, { signal });
+}
+
+/**
+ * Render the requested still(s) into tmpDir and describe the response.
+ */
+export async function renderThumbnails(
+  inputPath: string,
+  originalName: string,
+  meta: VideoMetadata,
+  tmpDir: string,
+  thumb: ThumbnailOptions,
+  procOptions: ProcessOptions,
+  signal?: AbortSignal,
+): Promise<OutputFile> {
+  const { ext, mime } = IMAGE_TYPES[thumb.format];
+  const duration = Math.max(0.1, meta.durationSec);
+  const lastFrameSec = Math.max(0, duration - 0.1);
+  const base = sanitizeFilename(path.basename(originalName || 'video', path.extname(originalName || '')));
+  const headers: Record<string, string> = {
+    'X-Video-Width': String(meta.width),
+    'X-Video-Height': String(meta.height),
+    'X-Video-DurationSec': String(meta.durationSec),
+    'X-Thumbnail-Select': thumb.select,
+    'X-Thumbnail-Framing': thumb.framing,
+  };
+
+  if (thumb.select === 'frames') {
+    const framePaths: string[] = [];
+    const times: number[] = [];
+    const graph = buildStillGraph('', '', thumb, procOptions, meta);
+    for (let i = 0; i < thumb.count; i++) {
+      const t = round3(Math.min(lastFrameSec, ((i + 0.5) * duration) / thumb.count));
+      const framePath = frameOutputPath(tmpDir, i + 1, ext);
+      await renderStill(inputPath, framePath, graph, thumb.format, t, signal);
+      framePaths.push(framePath);
+      times.push(t);
+    }
+    const outPath = zipOutputPath(tmpDir);
+    await zipFiles(framePaths.map((p) => ({ filePath: p, name: path.basename(p) })), outPath);
+    headers['X-Thumbnail-Count'] = String(framePaths.length);
+    headers['X-Thumbnail-Timestamps'] = times.join(',');
+    return { outPath, contentType: 'application/zip', filename: `thumbs_${base}.zip`, headers };
+  }
+
+  const outPath = thumbnailOutputPath(tmpDir, ext);
+  if (thumb.select === 'timestamp') {
+    const t = round3(Math.min(thumb.timestampSec, lastFrameSec));
+    await renderStill(inputPath, outPath, buildStillGraph('', '', thumb, procOptions, meta), thumb.format, t, signal);
+    headers['X-Thumbnail-Timestamps'] = String(t);
+  } else if (thumb.select === 'best') {
+    // thumbnail filter: most representative of BEST_CANDIDATES evenly sampled frames
+    const fps = round3(BEST_CANDIDATES / duration);
+    const graph = buildStillGraph(`fps=${fps},thumbnail=${BEST_CANDIDATES}`, '', thumb, procOptions, meta);
+    await renderStill(inputPath, outPath, graph, thumb.format, undefined, signal);
+  } else {
+    const tiles = thumb.columns * thumb.rows;
+    const fps = round3(tiles / duration);
+    const post = `scale=${thumb.tileWidth}:-2,tile=${thumb.columns}x${thumb.rows}:padding=4:margin=4`;
+    const graph = buildStillGraph(`fps=${fps}`, post, thumb, procOptions, meta);
+    await renderStill(inputPath, outPath, graph, thumb.format, undefined, signal);
+    headers['X-Thumbnail-Count'] = String(tiles);
+  }
+
+  const prefix = thumb.select === 'grid' ? 'sheet' : 'thumb';
+  return { outPath, contentType: mime, filename: `${prefix}_${base}${ext}`, headers };
+}
@@ -7,12 +7,18 @@ import * as path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import { MAX_FILE_SIZE_BYTES } from '../types';
 
-const TMP_DIR = process.platform === 'win32' ? path.join(process.env.TEMP ?? 'C:\\Windows\\Temp', 'shorts-api') : '/tmp/shorts-api';
+export const TMP_DIR = process.platform === 'win32' ? path.join(process.env.TEMP ?? 'C:\\Windows\\Temp', 'shorts-api') : '/tmp/shorts-api';
+
+/**
+ * Request / job dirs created by this process and not yet removed (deleted at shutdown), with the
+ * number of requests, jobs, retained results and uploads holding each.
+ */
+const liveDirs = new Map<string, number>();
 
 /**
  * Ensure base tmp dir exists. Uses sync to avoid races on first request.
  */
-function ensureTmpDir(): string {
+export function ensureTmpDir(): string {
   if (!fs.existsSync(TMP_DIR)) {
     fs.mkdirSync(TMP_DIR, { recursive: true });
   }
@@ -26,9 +32,27 @@ export function createUniqueTmpDir(): string {
   const base = ensureTmpDir();
   const sub = path.join(base, uuidv4());
   fs.mkdirSync(sub, { recursive: true });
+  liveDirs.set(sub, 0);
   return sub;
 }
 
+/**
+ * Mark a live dir as in use until the returned function runs (safe to call twice) or the dir is
+ * removed. The tmp janitor leaves held dirs alone; unheld ones are swept once stale.
+ */
+export function holdTmpDir(dir: string): () => void {
+  const holds = liveDirs.get(dir);
+  if (holds === undefined) return () => {};
+  liveDirs.set(dir, holds + 1);
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    const n = liveDirs.get(dir);
+    if (n !== undefined) liveDirs.set(dir, n - 1);
+  };
+}
+
 /**
  * Sanitize filename: only allow alphanumeric, dash, underscore, dot.
  * Used for Content-Disposition, not for filesystem paths.
@@ -38,10 +62,52 @@ export function sanitizeFilename(name: string): string {
 }
 
 /**
- * Build output path: dir + fixed output.mp4. No user input.
+ * Build output path: dir + fixed output<ext> (default .mp4). ext is from a fixed set, not user input.
+ */
+export function outputPath(dir: string, ext = '.mp4'): string {
+  return path.join(dir, `output${ext}`);
+}
+
+/**
+ * Build path for split segment N (1-based): dir + segment_NNN<ext> (default .mp4). No user input.
+ */
+export function segmentOutputPath(dir: string, index: number, ext = '.mp4'): string {
+  return path.join(dir, `segment_${String(index).padStart(3, '0')}${ext}`);
+}
+
+/**
+ * Build path for the ASS captions of conversion N (1-based): dir + subtitles_NNN.ass. No user input.
+ */
+export function subtitlesOutputPath(dir: string, index: number): string {
+  return path.join(dir, `subtitles_${String(index).padStart(3, '0')}.ass`);
+}
+
+/**
+ * Build path for a single still image: dir + thumbnail<ext>. ext is from a fixed set, not user input.
+ */
+export function thumbnailOutputPath(dir: string, ext: string): string {
+  return path.join(dir, `thumbnail${ext}`);
+}
+
+/**
+ * Build path for still N (1-based) of a multi-frame thumbnail request: dir + frame_NNN<ext>.
+ */
+export function frameOutputPath(dir: string, index: number, ext: string): string {
+  return path.join(dir, `frame_${String(index).padStart(3, '0')}${ext}`);
+}
+
+/**
+ * Build path for the source with silence cut out (removeSilence): dir + silence_cut.mkv. No user input.
+ */
+export function silenceCutPath(dir: string): string {
+  return path.join(dir, 'silence_cut.mkv');
+}
+
+/**
+ * Build path for a ZIP bundle (split segments, thumbnail frames): dir + output.zip. No user input.
  */
-export function outputPath(dir: string): string {
-  return path.join(dir, 'output.mp4');
+export function zipOutputPath(dir: string): string {
+  return path.join(dir, 'output.zip');
 }
 
 /**
@@ -57,6 +123,7 @@ export function assertFileSize(bytes: number): void {
  * Recursively delete a directory and all contents. Idempotent.
  */
 export function rmDirRecursive(dir: string): void {
+  liveDirs.delete(dir);
   if (!fs.existsSync(dir)) return;
   const entries = fs.readdirSync(dir, { withFileTypes: true });
   for (const e of entries) {
@@ -66,3 +133,30 @@ export function rmDirRecursive(dir: string): void {
   }
   fs.rmdirSync(dir);
 }
+
+/** True while this process created dir and has not removed it yet. */
+export function isLiveTmpDir(dir: string): boolean {
+  return liveDirs.has(dir);
+}
+
+/** True while a request, job, retained result or upload of this process holds dir. */
+export function isHeldTmpDir(dir: string): boolean {
+  return (liveDirs.get(dir) ?? 0) > 0;
+}
+
+/**
+ * Delete every request / job dir this process created and has not removed yet (shutdown).
+ * Returns how many were removed.
+ */
+export function removeLiveTmpDirs(): number {
+  let removed = 0;
+  for (const dir of [...liveDirs.keys()]) {
+    try {
+      rmDirRecursive(dir);
+      removed++;
+    } catch {
+      /* ignore */
+    }
+  }
+  return removed;
+}
@@ -0,0 +1,297 @@
+/**
+ * Resumable uploads: a large source is sent in chunks (create, append at an offset, complete) into
+ * its own tmp dir and then used by id (uploadId) as the source of /process/shorts, /inspect or
+ * /jobs instead of a multipart "file". A chunk that fails (bad checksum, dropped connection) is
+ * cut off again, so the upload resumes from the last good offset.
+ * Uploads untouched for UPLOAD_TTL_SEC are deleted, completed ones included.
+ * Env: UPLOAD_TTL_SEC, UPLOAD_CHUNK_MAX_MB.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { PassThrough, Transform, type Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { v4 as uuidv4 } from 'uuid';
+import { UPLOAD_CHUNK_MAX_MB_DEFAULT, UPLOAD_TTL_SEC_DEFAULT } from '../types';
+import { hashingTransform } from './hashstorage';
+import { log } from './logger';
+import { assertFileSize, createUniqueTmpDir, holdTmpDir, rmDirRecursive, sanitizeFilename } from './tmp';
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+const SHA256_RE = /^[0-9a-f]{64}$/;
+
+export type UploadStatus = 'uploading' | 'complete';
+
+export interface ResumableUpload {
+  id: string;
+  /** Upload's own tmp dir (held, so the tmp janitor leaves it alone). */
+  dir: string;
+  /** Received bytes, appended chunk by chunk. */
+  dataPath: string;
+  originalName: string;
+  mimetype: string;
+  /** Declared total size in bytes. */
+  size: number;
+  /** Bytes received and verified so far; the next chunk must start here. */
+  offset: number;
+  status: UploadStatus;
+  /** Expected hex SHA-256 of the whole file, when declared at creation. */
+  expectedSha256?: string;
+  /** Hex SHA-256 of the received file, once complete. */
+  sha256?: string;
+  /** API key name that created it; only that key can use it. */
+  owner?: string;
+  createdAt: number;
+  expiresAt: number;
+  /** A chunk is being written (one at a time per upload). */
+  busy: boolean;
+  /** Running digest of bytes 0..offset. */
+  hash: crypto.Hash;
+}
+
+export interface NewUpload {
+  originalName: string;
+  mimetype: string;
+  size: number;
+  sha256?: string;
+}
+
+function envInt(name: string, fallback: number, min: number, max: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return fallback;
+  const n = parseInt(raw, 10);
+  if (!Number.isFinite(n) || n < min) return fallback;
+  return Math.min(n, max);
+}
+
+const ttlMs = envInt('UPLOAD_TTL_SEC', UPLOAD_TTL_SEC_DEFAULT, 60, 7 * 24 * 3600) * 1000;
+/** Largest chunk accepted by appendChunk, in bytes. */
+export const UPLOAD_CHUNK_MAX_BYTES = envInt('UPLOAD_CHUNK_MAX_MB', UPLOAD_CHUNK_MAX_MB_DEFAULT, 1, 1024) * 1024 * 1024;
+
+const uploads = new Map<string, ResumableUpload>();
+
+/** Lower-case hex SHA-256, or INVALID_UPLOAD. */
+export function parseSha256(value: unknown, field: string): string | undefined {
+  if (value === undefined || value === '') return undefined;
+  const hex = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  if (!SHA256_RE.test(hex)) {
+    throw new Error(`INVALID_UPLOAD: ${field} must be a hex SHA-256 (64 characters)`);
+  }
+  return hex;
+}
+
+/** Start an upload of spec.size bytes (at most MAX_FILE_SIZE_BYTES, like a multipart upload). */
+export function createUpload(spec: NewUpload, owner?: string): ResumableUpload {
+  if (!Number.isSafeInteger(spec.size) || spec.size <= 0) {
+    throw new Error('INVALID_UPLOAD: size must be a positive integer (bytes)');
+  }
+  assertFileSize(spec.size);
+  const dir = createUniqueTmpDir();
+  // held until the upload is deleted or expires
+  holdTmpDir(dir);
+  const ext = path.extname(spec.originalName) || '.mp4';
+  const dataPath = path.join(dir, `upload${ext.length <= 10 ? sanitizeFilename(ext) : '.mp4'}`);
+  fs.writeFileSync(dataPath, '');
+  const now = Date.now();
+  const upload: ResumableUpload = {
+    id: uuidv4(),
+    dir,
+    dataPath,
+    originalName: spec.originalName,
+    mimetype: spec.mimetype,
+    size: spec.size,
+    offset: 0,
+    status: 'uploading',
+    expectedSha256: spec.sha256,
+    owner,
+    createdAt: now,
+    expiresAt: now + ttlMs,
+    busy: false,
+    hash: crypto.createHash('sha256'),
+  };
+  uploads.set(upload.id, upload);
+  return upload;
+}
+
+export function getUpload(id: string): ResumableUpload | undefined {
+  const upload = uploads.get(id);
+  if (upload && !upload.busy && upload.expiresAt <= Date.now()) {
+    removeUpload(upload);
+    return undefined;
+  }
+  return upload;
+}
+
+/** Delete the upload and its bytes (DELETE /uploads/:id, expiry, failed whole-file checksum). */
+export function removeUpload(upload: ResumableUpload): void {
+  uploads.delete(upload.id);
+  try {
+    rmDirRecursive(upload.dir);
+  } catch {
+    /* ignore */
+  }
+}
+
+/** Cut the data file back to the last verified offset after a failed chunk. */
+function truncateToOffset(upload: ResumableUpload): void {
+  try {
+    fs.truncateSync(upload.dataPath, upload.offset);
+  } catch {
+    /* upload removed meanwhile */
+  }
+}
+
+/** INVALID_UPLOAD for a chunk of bytes that does not fit at the upload's offset. */
+function oversizedChunkError(upload: ResumableUpload, bytes: number): Error {
+  return new Error(
+    bytes > upload.size - upload.offset
+      ? `INVALID_UPLOAD: chunk goes past the declared size of ${upload.size} bytes`
+      : `INVALID_UPLOAD: chunk is larger than ${UPLOAD_CHUNK_MAX_BYTES} bytes`,
+  );
+}
+
+/**
+ * Append the chunk read from body at offset (must equal upload.offset). With chunkSha256 the
+ * chunk's digest must match, otherwise it is discarded (CHECKSUM_MISMATCH). Returns the bytes
+ * written; upload.offset is advanced only after the whole chunk was stored and verified.
+ * declaredBytes (Content-Length) rejects an oversized chunk before reading it. On failure body is
+ * left draining, not destroyed, so the caller can still answer on its connection.
+ */
+export async function appendChunk(
+  upload: ResumableUpload,
+  offset: number,
+  body: Readable,
+  chunkSha256?: string,
+  signal?: AbortSignal,
+  declaredBytes?: number,
+): Promise<number> {
+  if (upload.status === 'complete') {
+    throw new Error('UPLOAD_COMPLETE: upload is already complete');
+  }
+  if (upload.busy) {
+    throw new Error('UPLOAD_BUSY: another chunk of this upload is being written');
+  }
+  if (offset !== upload.offset) {
+    throw new Error(`UPLOAD_OFFSET_MISMATCH: chunk starts at ${offset} but the upload is at ${upload.offset}`);
+  }
+
+  const limit = Math.min(UPLOAD_CHUNK_MAX_BYTES, upload.size - upload.offset);
+  if (declaredBytes !== undefined && declaredBytes > limit) {
+    throw oversizedChunkError(upload, declaredBytes);
+  }
+  let written = 0;
+  const limiter = new Transform({
+    transform(chunk: Buffer, _enc, cb) {
+      written += chunk.length;
+      if (written > limit) {
+        cb(oversizedChunkError(upload, written));
+        return;
+      }
+      cb(null, chunk);
+    },
+  });
+  const chunkHash = crypto.createHash('sha256');
+  // the running digest only takes the chunk once it is verified
+  const nextHash = upload.hash.copy();
+
+  // the pipeline tears down this relay on error, not body (that would reset the connection)
+  const source = new PassThrough();
+  const forwardError = (e: Error) => source.destroy(e);
+  body.on('error', forwardError);
+  body.pipe(source);
+
+  upload.busy = true;
+  try {
+    await pipeline(
+      source,
+      limiter,
+      hashingTransform(chunkHash),
+      hashingTransform(nextHash),
+      fs.createWriteStream(upload.dataPath, { flags: 'a' }),
+      { signal },
+    );
+    if (written === 0) {
+      throw new Error('INVALID_UPLOAD: empty chunk');
+    }
+    if (chunkSha256 && chunkHash.digest('hex') !== chunkSha256) {
+      throw new Error('CHECKSUM_MISMATCH: chunk SHA-256 does not match X-Chunk-SHA256; resend it');
+    }
+  } catch (e) {
+    truncateToOffset(upload);
+    // discard the rest of the chunk so the error response reaches the client
+    body.unpipe(source);
+    body.resume();
+    throw e;
+  } finally {
+    body.off('error', forwardError);
+    upload.busy = false;
+  }
+  upload.offset += written;
+  upload.hash = nextHash;
+  upload.expiresAt = Date.now() + ttlMs;
+  return written;
+}
+
+/**
+ * Finish an upload once every byte arrived. The whole file must match sha256 (or the one declared
+ * at creation); on mismatch the upload is deleted (CHECKSUM_MISMATCH) and must be sent again.
+ * Completing twice is a no-op.
+ */
+export function completeUpload(upload: ResumableUpload, sha256?: string): ResumableUpload {
+  const expected = sha256 ?? upload.expectedSha256;
+  if (upload.status === 'complete') {
+    if (expected && expected !== upload.sha256) {
+      throw new Error('CHECKSUM_MISMATCH: file SHA-256 does not match the completed upload');
+    }
+    return upload;
+  }
+  if (upload.busy) {
+    throw new Error('UPLOAD_BUSY: a chunk of this upload is still being written');
+  }
+  if (upload.offset < upload.size) {
+    throw new Error(`UPLOAD_INCOMPLETE: ${upload.offset} of ${upload.size} bytes received`);
+  }
+  const actual = upload.hash.digest('hex');
+  if (expected && actual !== expected) {
+    removeUpload(upload);
+    log.warn('upload discarded: file checksum mismatch', { uploadId: upload.id, bytes: upload.size });
+    throw new Error('CHECKSUM_MISMATCH: file SHA-256 does not match; the upload was discarded, start a new one');
+  }
+  upload.sha256 = actual;
+  upload.status = 'complete';
+  upload.expiresAt = Date.now() + ttlMs;
+  return upload;
+}
+
+/**
+ * Put the completed upload's file into a request / job dir (hard link, copy across filesystems)
+ * so the request's cleanup never touches the upload. Returns the new path.
+ */
+export function linkUploadInto(upload: ResumableUpload, dir: string): string {
+  if (upload.status !== 'complete') {
+    throw new Error(`UPLOAD_INCOMPLETE: upload is not complete (${upload.offset} of ${upload.size} bytes received)`);
+  }
+  const ext = path.extname(upload.dataPath);
+  const base = path.basename(upload.originalName, path.extname(upload.originalName)) || 'video';
+  const target = path.join(dir, sanitizeFilename(base) + ext);
+  try {
+    fs.linkSync(upload.dataPath, target);
+  } catch {
+    fs.copyFileSync(upload.dataPath, target);
+  }
+  upload.expiresAt = Date.now() + ttlMs;
+  return target;
+}
+
+function sweepExpired(): void {
+  const now = Date.now();
+  for (const upload of uploads.values()) {
+    if (!upload.busy && upload.expiresAt <= now) {
+      removeUpload(upload);
+      log.info('upload expired', { uploadId: upload.id, status: upload.status, offset: upload.offset, size: upload.size });
+    }
+  }
+}
+
+setInterval(sweepExpired, SWEEP_INTERVAL_MS).unref();
@@ -0,0 +1,123 @@
+/**
+ * Outbound URL policy shared by sourceUrl downloads and callback webhooks: http(s) only, host
+ * allow / deny lists and no private / loopback addresses (checked on the resolved IP).
+ * Env per use: <PREFIX>_ALLOW_HOSTS, <PREFIX>_DENY_HOSTS, <PREFIX>_ALLOW_PRIVATE.
+ */
+
+import * as dns from 'dns';
+import * as net from 'net';
+
+export interface UrlPolicy {
+  /** Error code prefix, e.g. 'SOURCE_URL' -> SOURCE_URL_INVALID / SOURCE_URL_FORBIDDEN. */
+  code: string;
+  allowHosts: string[];
+  denyHosts: string[];
+  allowPrivate: boolean;
+}
+
+/** Comma-separated host patterns: "example.com" (exact) or "*.example.com" / ".example.com" (subdomains too). */
+function envList(name: string): string[] {
+  return (process.env[name] ?? '')
+    .split(',')
+    .map((h) => h.trim().toLowerCase())
+    .filter((h) => h !== '');
+}
+
+/** Loopback, private, link-local, CGNAT, multicast and reserved ranges (IPv4 and IPv6). */
+const PRIVATE_RANGES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+/** Policy from <envPrefix>_* env vars (read on each call, so tests and reloads see changes). */
+export function urlPolicy(envPrefix: string): UrlPolicy {
+  return {
+    code: envPrefix,
+    allowHosts: envList(`${envPrefix}_ALLOW_HOSTS`),
+    denyHosts: envList(`${envPrefix}_DENY_HOSTS`),
+    allowPrivate: process.env[`${envPrefix}_ALLOW_PRIVATE`] === 'true',
+  };
+}
+
+function isPrivateAddress(ip: string): boolean {
+  const family = net.isIP(ip);
+  if (family === 0) return false;
+  // IPv4-mapped IPv6 (::ffff:10.0.0.1) is checked as IPv4
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(ip);
+  if (mapped) return PRIVATE_RANGES.check(mapped[1], 'ipv4');
+  return PRIVATE_RANGES.check(ip, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+function hostMatches(host: string, pattern: string): boolean {
+  if (pattern.startsWith('*.') || pattern.startsWith('.')) {
+    const base = pattern.replace(/^\*?\./, '');
+    return host === base || host.endsWith(`.${base}`);
+  }
+  return host === pattern;
+}
+
+/**
+ * Protocol and host-list checks for one URL (every redirect hop); IP literals are checked here
+ * because they skip DNS. Throws <code>_INVALID / <code>_FORBIDDEN.
+ */
+export function assertUrlAllowed(url: URL, policy: UrlPolicy): void {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`${policy.code}_INVALID: only http and https URLs are supported (got ${url.protocol})`);
+  }
+  if (url.username || url.password) {
+    throw new Error(`${policy.code}_INVALID: credentials in the URL are not supported`);
+  }
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  if (policy.denyHosts.some((p) => hostMatches(host, p))) {
+    throw new Error(`${policy.code}_FORBIDDEN: host ${host} is denied`);
+  }
+  if (policy.allowHosts.length > 0 && !policy.allowHosts.some((p) => hostMatches(host, p))) {
+    throw new Error(`${policy.code}_FORBIDDEN: host ${host} is not in ${policy.code}_ALLOW_HOSTS`);
+  }
+  if (!policy.allowPrivate && isPrivateAddress(host)) {
+    throw new Error(`${policy.code}_FORBIDDEN: ${host} is a private address`);
+  }
+}
+
+/**
+ * dns.lookup (for http.request's lookup option) that refuses private addresses, so a public
+ * name cannot resolve (or rebind) to an internal host between the check and the connect.
+ */
+export function guardedLookup(policy: UrlPolicy): net.LookupFunction {
+  return (hostname, options, callback) => {
+    const cb = callback as (...args: unknown[]) => void;
+    dns.lookup(hostname, options, (err, address, family) => {
+      if (err || policy.allowPrivate) {
+        cb(err, address, family);
+        return;
+      }
+      const addresses = Array.isArray(address) ? address.map((a) => a.address) : [address];
+      const blocked = addresses.find((a) => isPrivateAddress(a));
+      if (blocked) {
+        cb(new Error(`${policy.code}_FORBIDDEN: ${hostname} resolves to private address ${blocked}`));
+        return;
+      }
+      cb(null, address, family);
+    });
+  };
+}
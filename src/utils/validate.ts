@@ -1,31 +1,47 @@
 /**
- * Shorts validation: vertical, 9:16 aspect, duration <= max.
+ * Shorts validation against options.profile: orientation and aspect of the target size,
+ * duration <= max, minimum resolution, file size, frame rate and bitrate limits.
  */
 
 import type { ProcessOptions, ShortsValidation, VideoMetadata } from '../types';
-import { TARGET_ASPECT } from '../types';
 
 export function validateShorts(
   meta: VideoMetadata,
   options: ProcessOptions,
 ): ShortsValidation {
-  const { maxDurationSec, tolerance } = options;
+  const { maxDurationSec, tolerance, targetWidth, targetHeight, profile } = options;
+  // vertical is only required when the target itself is portrait (a square / 4:5 profile is not)
   const isVertical = meta.height > meta.width;
+  const orientationOk = isVertical || targetHeight <= targetWidth;
   const aspect = meta.aspectRatio;
-  const aspectOk = Math.abs(aspect - TARGET_ASPECT) <= tolerance;
+  const aspectOk = Math.abs(aspect - targetWidth / targetHeight) <= tolerance;
   const durationOk = meta.durationSec <= maxDurationSec;
+  const resolutionOk = meta.width >= profile.minWidth && meta.height >= profile.minHeight;
+  const fileSizeOk = profile.maxFileSizeMB === null || meta.sizeBytes <= profile.maxFileSizeMB * 1024 * 1024;
+  const fpsOk = profile.maxFps === null || meta.fps <= profile.maxFps + 0.01;
+  const bitrateOk = profile.maxBitrateKbps === null || meta.bitrate === null
+    || meta.bitrate <= profile.maxBitrateKbps * 1000;
 
   const reasons: string[] = [];
-  if (!isVertical) reasons.push('NOT_VERTICAL');
+  if (!orientationOk) reasons.push('NOT_VERTICAL');
   if (!aspectOk) reasons.push('ASPECT_RATIO_MISMATCH');
   if (!durationOk) reasons.push('DURATION_EXCEEDED');
+  if (!resolutionOk) reasons.push('RESOLUTION_TOO_LOW');
+  if (!fileSizeOk) reasons.push('FILE_SIZE_EXCEEDED');
+  if (!fpsOk) reasons.push('FPS_EXCEEDED');
+  if (!bitrateOk) reasons.push('BITRATE_EXCEEDED');
 
-  const shortsEligible = durationOk && isVertical && aspectOk;
+  const shortsEligible = reasons.length === 0;
 
   return {
+    profile: profile.id,
     isVertical,
     aspectOk,
     durationOk,
+    resolutionOk,
+    fileSizeOk,
+    fpsOk,
+    bitrateOk,
     shortsEligible,
     reasons,
   };
@@ -0,0 +1,160 @@
+/**
+ * Completion webhooks (callbackUrl): POST a JSON payload when a job finishes, signed with
+ * HMAC-SHA256 and retried with exponential backoff.
+ * Env: CALLBACK_SECRET, CALLBACK_MAX_ATTEMPTS, CALLBACK_RETRY_BASE_SEC, CALLBACK_TIMEOUT_SEC and
+ * the CALLBACK_URL_* host policy (see urlguard).
+ */
+
+import * as crypto from 'crypto';
+import * as http from 'http';
+import * as https from 'https';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  CALLBACK_MAX_ATTEMPTS_DEFAULT,
+  CALLBACK_RETRY_BASE_SEC_DEFAULT,
+  CALLBACK_TIMEOUT_SEC_DEFAULT,
+} from '../types';
+import { log } from './logger';
+import { assertUrlAllowed, guardedLookup, urlPolicy } from './urlguard';
+
+/** Longest wait between two attempts. */
+const MAX_RETRY_DELAY_MS = 10 * 60 * 1000;
+
+export interface CallbackTarget {
+  url: string;
+  /** callbackSecret, else CALLBACK_SECRET; null sends the payload unsigned. */
+  secret: string | null;
+}
+
+/** Delivery state, shown in the job view. */
+export interface CallbackDelivery {
+  url: string;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  lastStatusCode?: number;
+  lastError?: string;
+  deliveredAt?: number;
+}
+
+function envInt(name: string, fallback: number, min: number, max: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return fallback;
+  const n = parseInt(raw, 10);
+  if (!Number.isFinite(n) || n < min) return fallback;
+  return Math.min(n, max);
+}
+
+/**
+ * callbackUrl / callbackSecret request fields -> target, or null when no callbackUrl.
+ * A URL the CALLBACK_URL_* policy refuses is INVALID_OPTIONS (private addresses resolved by DNS
+ * are only caught at delivery).
+ */
+export function parseCallback(body: Record<string, unknown>): CallbackTarget | null {
+  const raw = body.callbackUrl;
+  if (raw === undefined || raw === null || raw === '') return null;
+  let url: URL;
+  try {
+    url = new URL(String(raw));
+  } catch {
+    throw new Error('INVALID_OPTIONS: callbackUrl is not a valid URL');
+  }
+  try {
+    assertUrlAllowed(url, urlPolicy('CALLBACK_URL'));
+  } catch (e) {
+    throw new Error(`INVALID_OPTIONS: callbackUrl: ${(e as Error).message.replace(/^CALLBACK_URL_\w+:\s*/, '')}`);
+  }
+  const secret = typeof body.callbackSecret === 'string' && body.callbackSecret !== ''
+    ? body.callbackSecret
+    : process.env.CALLBACK_SECRET || null;
+  return { url: url.toString(), secret };
+}
+
+/**
+ * Signature header value: t=<unix sec>,v1=<hex HMAC-SHA256 of "<t>.<body>">.
+ * Receivers recompute it with the shared secret and should reject stale timestamps.
+ */
+export function signPayload(secret: string, body: string, timestampSec: number): string {
+  const mac = crypto.createHmac('sha256', secret).update(`${timestampSec}.${body}`).digest('hex');
+  return `t=${timestampSec},v1=${mac}`;
+}
+
+/** Retry on network errors, timeouts, 408, 429 and 5xx; other statuses are final. */
+function retryable(statusCode: number | undefined): boolean {
+  return statusCode === undefined || statusCode === 408 || statusCode === 429 || statusCode >= 500;
+}
+
+/** One POST; resolves with the status code, rejects on network error / timeout. */
+function post(target: CallbackTarget, headers: Record<string, string>, body: string): Promise<number> {
+  const url = new URL(target.url);
+  const client = url.protocol === 'https:' ? https : http;
+  const timeoutMs = envInt('CALLBACK_TIMEOUT_SEC', CALLBACK_TIMEOUT_SEC_DEFAULT, 1, 300) * 1000;
+  return new Promise((resolve, reject) => {
+    const req = client.request(url, {
+      method: 'POST',
+      lookup: guardedLookup(urlPolicy('CALLBACK_URL')),
+      headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+    }, (res) => {
+      res.resume();
+      resolve(res.statusCode ?? 0);
+    });
+    req.setTimeout(timeoutMs, () => req.destroy(new Error(`timed out after ${timeoutMs / 1000}s`)));
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+/**
+ * POST payload to the target until it answers 2xx, a non-retryable status, or
+ * CALLBACK_MAX_ATTEMPTS is reached; delay doubles from CALLBACK_RETRY_BASE_SEC.
+ * state is updated in place. Never rejects.
+ */
+export async function deliverCallback(
+  logId: string,
+  target: CallbackTarget,
+  event: string,
+  payload: Record<string, unknown>,
+  state: CallbackDelivery,
+): Promise<void> {
+  const maxAttempts = envInt('CALLBACK_MAX_ATTEMPTS', CALLBACK_MAX_ATTEMPTS_DEFAULT, 1, 20);
+  const baseDelayMs = envInt('CALLBACK_RETRY_BASE_SEC', CALLBACK_RETRY_BASE_SEC_DEFAULT, 1, 600) * 1000;
+  const body = JSON.stringify({ event, ...payload });
+  const deliveryId = uuidv4();
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    state.attempts = attempt;
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'video-shorts-api',
+      'X-Shorts-Event': event,
+      'X-Shorts-Delivery': deliveryId,
+      'X-Shorts-Attempt': String(attempt),
+    };
+    if (target.secret) {
+      headers['X-Shorts-Signature'] = signPayload(target.secret, body, Math.floor(Date.now() / 1000));
+    }
+
+    let statusCode: number | undefined;
+    try {
+      statusCode = await post(target, headers, body);
+      state.lastStatusCode = statusCode;
+      state.lastError = undefined;
+      if (statusCode >= 200 && statusCode < 300) {
+        state.status = 'delivered';
+        state.deliveredAt = Date.now();
+        log.info('callback delivered', { requestId: logId, event, statusCode, attempt });
+        return;
+      }
+      state.lastError = `HTTP ${statusCode}`;
+    } catch (e) {
+      state.lastError = (e as Error).message;
+    }
+
+    if (!retryable(statusCode) || attempt === maxAttempts) break;
+    const delayMs = Math.min(baseDelayMs * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS);
+    log.warn('callback attempt failed', { requestId: logId, event, attempt, error: state.lastError, retryInMs: delayMs });
+    await new Promise((resolve) => setTimeout(resolve, delayMs).unref());
+  }
+
+  state.status = 'failed';
+  log.error('callback failed', { requestId: logId, event, attempts: state.attempts, error: state.lastError });
+}
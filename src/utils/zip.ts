@@ -0,0 +1,34 @@
+/**
+ * ZIP packaging for multi-file outputs (split segments). Store-only: video is already compressed.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import archiver from 'archiver';
+
+export interface ZipEntry {
+  /** Absolute path of the file on disk. */
+  filePath: string;
+  /** Name inside the archive (no directories). */
+  name: string;
+}
+
+/**
+ * Write entries to zipPath. Resolves once the archive is fully flushed to disk.
+ */
+export function zipFiles(entries: ZipEntry[], zipPath: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const out = fs.createWriteStream(zipPath);
+    const archive = archiver('zip', { store: true });
+
+    out.on('close', () => resolve());
+    out.on('error', (err) => reject(new Error(`zip write failed: ${err.message}`)));
+    archive.on('error', (err) => reject(new Error(`zip failed: ${err.message}`)));
+
+    archive.pipe(out);
+    for (const e of entries) {
+      archive.file(e.filePath, { name: path.basename(e.name) });
+    }
+    void archive.finalize();
+  });
+}